@@ -1,4 +1,4 @@
-import { MoleculeViewer } from '@/components/viewer/MoleculeViewer'
+import { MoleculeViewer } from "@/components/viewer/MoleculeViewer";
 
 export default function Home() {
   return (
@@ -10,5 +10,5 @@ export default function Home() {
         <MoleculeViewer />
       </div>
     </div>
-  )
+  );
 }
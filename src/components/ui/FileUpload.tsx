@@ -2,16 +2,21 @@
 
 import { useCallback } from "react";
 import { Upload } from "lucide-react";
+import { SUPPORTED_EXTENSIONS } from "@/lib/structure/loader";
+import { GZIP_EXTENSION, stripGzipExtension } from "@/lib/structure/gzip";
 
 interface Props {
-  onPDBLoad: (data: Uint8Array) => void; // Changed to match MoleculeViewer
+  onPDBLoad: (data: Uint8Array, fileName: string) => void; // Changed to match MoleculeViewer
 }
 
 export function FileUpload({ onPDBLoad }: Props) {
   const handleFile = useCallback(
     async (file: File) => {
-      if (!file.name.toLowerCase().endsWith(".pdb")) {
-        console.error("Please select a PDB file");
+      const name = stripGzipExtension(file.name).toLowerCase();
+      if (!SUPPORTED_EXTENSIONS.some((extension) => name.endsWith(extension))) {
+        console.error(
+          "Please select a PDB, mmCIF, SDF, MOL or XYZ file (optionally gzipped)"
+        );
         return;
       }
 
@@ -24,9 +29,9 @@ export function FileUpload({ onPDBLoad }: Props) {
           new TextDecoder().decode(data.slice(0, 80))
         );
         console.log("Total bytes loaded:", data.length);
-        onPDBLoad(data);
+        onPDBLoad(data, file.name);
       } catch (error) {
-        console.error("Failed to load PDB file:", error);
+        console.error("Failed to load structure file:", error);
       }
     },
     [onPDBLoad]
@@ -36,10 +41,10 @@ export function FileUpload({ onPDBLoad }: Props) {
     <div className="absolute top-4 right-4">
       <label className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded cursor-pointer transition-colors">
         <Upload size={20} />
-        Load PDB
+        Load Structure
         <input
           type="file"
-          accept=".pdb"
+          accept={[...SUPPORTED_EXTENSIONS, GZIP_EXTENSION].join(",")}
           onChange={(e) => {
             const file = e.target.files?.[0];
             if (file) handleFile(file);
@@ -0,0 +1,80 @@
+// src/components/viewer/AmbientOcclusionControls.tsx
+import React from "react";
+import { AmbientOcclusionOptions } from "./hooks/usePostProcessing";
+
+interface AmbientOcclusionControlsProps {
+  options: AmbientOcclusionOptions;
+  isSupported: boolean;
+  onOptionsChange: (options: AmbientOcclusionOptions) => void;
+}
+
+export function AmbientOcclusionControls({
+  options,
+  isSupported,
+  onOptionsChange,
+}: AmbientOcclusionControlsProps) {
+  const isActive = isSupported && options.enabled;
+
+  return (
+    <div className="flex flex-col gap-2 bg-black/70 text-white text-sm px-3 py-2 rounded-lg shadow-lg">
+      <label
+        className="flex items-center gap-2"
+        title={
+          isSupported
+            ? "Shade creases and cavities; turn off on slower machines"
+            : "Not supported by this browser"
+        }
+      >
+        <input
+          type="checkbox"
+          checked={isActive}
+          disabled={!isSupported}
+          onChange={(e) =>
+            onOptionsChange({ ...options, enabled: e.target.checked })
+          }
+        />
+        Ambient occlusion
+      </label>
+
+      <label className="flex items-center gap-2">
+        <span className="w-20">Strength</span>
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={options.strength}
+          disabled={!isActive}
+          onChange={(e) =>
+            onOptionsChange({
+              ...options,
+              strength: parseFloat(e.target.value),
+            })
+          }
+          className="w-28"
+        />
+        <span className="w-12 text-right">{options.strength.toFixed(1)}</span>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <span className="w-20">Radius</span>
+        <input
+          type="range"
+          min={1}
+          max={10}
+          step={0.5}
+          value={options.radius}
+          disabled={!isActive}
+          onChange={(e) =>
+            onOptionsChange({
+              ...options,
+              radius: parseFloat(e.target.value),
+            })
+          }
+          className="w-28"
+        />
+        <span className="w-12 text-right">{options.radius.toFixed(1)} Å</span>
+      </label>
+    </div>
+  );
+}
@@ -6,23 +6,47 @@ interface AtomInfoDisplayProps {
   atom: AtomInfo | null;
 }
 
+function formatCharge(charge: number): string {
+  if (charge === 0) return "0";
+  return `${Math.abs(charge)}${charge > 0 ? "+" : "-"}`;
+}
+
 export function AtomInfoDisplay({ atom }: AtomInfoDisplayProps) {
   if (!atom) return null;
 
   return (
     <div className="absolute top-20 left-4 bg-black/70 text-white px-4 py-3 rounded-lg shadow-lg">
-      <h3 className="font-semibold mb-1">Selected Atom</h3>
+      <h3 className="font-semibold mb-1">
+        Selected Atom
+        {atom.recordType === "HETATM" && (
+          <span className="ml-2 text-xs text-yellow-300">HETATM</span>
+        )}
+      </h3>
       <div className="space-y-1 text-sm">
         <p>
           <span className="text-gray-400">Residue:</span> {atom.residueName}-
           {atom.residueNumber}
+          {atom.insertionCode}
         </p>
         <p>
           <span className="text-gray-400">Atom:</span> {atom.atomName}
+          {atom.altLoc && ` (alt ${atom.altLoc})`} #{atom.serial}
+        </p>
+        <p>
+          <span className="text-gray-400">Element:</span> {atom.element}
+          {atom.charge !== 0 && ` ${formatCharge(atom.charge)}`}
         </p>
         <p>
           <span className="text-gray-400">Chain:</span> {atom.chain}
         </p>
+        <p>
+          <span className="text-gray-400">Occupancy:</span>{" "}
+          {atom.occupancy.toFixed(2)}
+        </p>
+        <p>
+          <span className="text-gray-400">B-factor:</span>{" "}
+          {atom.tempFactor.toFixed(2)}
+        </p>
       </div>
     </div>
   );
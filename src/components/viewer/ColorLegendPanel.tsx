@@ -0,0 +1,60 @@
+// src/components/viewer/ColorLegendPanel.tsx
+import React from "react";
+import { ColorLegend } from "./utils/colorSchemes";
+
+interface ColorLegendPanelProps {
+  legends: ColorLegend[]; // One per colour scheme shown
+}
+
+// Long category lists (e.g. one entry per chain of a ribosome) are cut off
+const MAX_LISTED_ENTRIES = 12;
+
+const toCss = ([r, g, b]: [number, number, number]) =>
+  `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`;
+
+export function ColorLegendPanel({ legends }: ColorLegendPanelProps) {
+  if (legends.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-12 left-4 flex flex-col gap-3 max-h-[40%] overflow-y-auto bg-black/70 text-white text-sm px-3 py-2 rounded-lg shadow-lg">
+      {legends.map((legend) => (
+        <div key={legend.title}>
+          <p className="font-semibold mb-1">{legend.title}</p>
+          {legend.kind === "categories" ? (
+            <ul className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+              {legend.entries.slice(0, MAX_LISTED_ENTRIES).map((entry) => (
+                <li key={entry.label} className="flex items-center gap-2">
+                  <span
+                    className="w-3 h-3 rounded-sm shrink-0"
+                    style={{ backgroundColor: toCss(entry.color) }}
+                  />
+                  {entry.label}
+                </li>
+              ))}
+              {legend.entries.length > MAX_LISTED_ENTRIES && (
+                <li className="italic">
+                  and {legend.entries.length - MAX_LISTED_ENTRIES} more
+                </li>
+              )}
+            </ul>
+          ) : (
+            <div className="w-48">
+              <div
+                className="h-3 rounded-sm"
+                style={{
+                  background: `linear-gradient(to right, ${legend.stops
+                    .map(toCss)
+                    .join(", ")})`,
+                }}
+              />
+              <div className="flex justify-between text-xs text-gray-300 mt-0.5">
+                <span>{legend.min}</span>
+                <span>{legend.max}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
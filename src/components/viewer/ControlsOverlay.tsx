@@ -26,6 +26,7 @@ export function ControlsOverlay({
         <p>🖱️ Middle Click/Shift + Drag: Pan</p>
         <p>⚡ Arrow Keys: Pan</p>
         <p>🔄 Scroll: Zoom</p>
+        <p>✂️ Shift/Alt + Scroll: Near/Far Clipping</p>
         <p>↺ R: Reset View</p>
       </div>
     </div>
@@ -0,0 +1,90 @@
+// src/components/viewer/DepthCueingControls.tsx
+import React from "react";
+import {
+  ClippingSlab,
+  FogOptions,
+  moveSlabPlane,
+  SLAB_LIMIT,
+} from "./utils/depthCueing";
+
+interface DepthCueingControlsProps {
+  fog: FogOptions;
+  slab: ClippingSlab;
+  onFogChange: (fog: FogOptions) => void;
+  onSlabChange: (slab: ClippingSlab) => void;
+}
+
+export function DepthCueingControls({
+  fog,
+  slab,
+  onFogChange,
+  onSlabChange,
+}: DepthCueingControlsProps) {
+  const sliderClass = "w-28";
+
+  return (
+    <div className="flex flex-col gap-2 bg-black/70 text-white text-sm px-3 py-2 rounded-lg shadow-lg">
+      <label
+        className="flex items-center gap-2"
+        title="Fade geometry behind the centre of view into the background"
+      >
+        <input
+          type="checkbox"
+          checked={fog.enabled}
+          onChange={(e) => onFogChange({ ...fog, enabled: e.target.checked })}
+        />
+        Fog
+      </label>
+
+      <label className="flex items-center gap-2">
+        <span className="w-20">Depth</span>
+        <input
+          type="range"
+          min={5}
+          max={100}
+          step={1}
+          value={fog.distance}
+          disabled={!fog.enabled}
+          onChange={(e) =>
+            onFogChange({ ...fog, distance: parseFloat(e.target.value) })
+          }
+          className={sliderClass}
+        />
+        <span className="w-12 text-right">{fog.distance} Å</span>
+      </label>
+
+      <label
+        className="flex items-center gap-2"
+        title="Hide geometry outside two planes around the centre of view; Shift/Alt + scroll moves them"
+      >
+        <input
+          type="checkbox"
+          checked={slab.enabled}
+          onChange={(e) => onSlabChange({ ...slab, enabled: e.target.checked })}
+        />
+        Clipping slab
+      </label>
+
+      {(["near", "far"] as const).map((plane) => (
+        <label key={plane} className="flex items-center gap-2">
+          <span className="w-20">{plane === "near" ? "Front" : "Back"}</span>
+          <input
+            type="range"
+            min={-SLAB_LIMIT}
+            max={SLAB_LIMIT}
+            step={1}
+            value={slab[plane]}
+            disabled={!slab.enabled}
+            onChange={(e) =>
+              onSlabChange(
+                moveSlabPlane(slab, plane, parseFloat(e.target.value))
+              )
+            }
+            className={sliderClass}
+          />
+          <span className="w-12 text-right">{slab[plane]} Å</span>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+// src/components/viewer/IllustrationControls.tsx
+import React from "react";
+import { OutlineOptions } from "./hooks/usePostProcessing";
+import { fromHex, toHex } from "./utils/colorSchemes";
+
+interface IllustrationControlsProps {
+  outline: OutlineOptions;
+  celShading: boolean;
+  isOutlineSupported: boolean;
+  onOutlineChange: (outline: OutlineOptions) => void;
+  onCelShadingChange: (celShading: boolean) => void;
+}
+
+export function IllustrationControls({
+  outline,
+  celShading,
+  isOutlineSupported,
+  onOutlineChange,
+  onCelShadingChange,
+}: IllustrationControlsProps) {
+  const isOutlined = isOutlineSupported && outline.enabled;
+
+  return (
+    <div className="flex flex-col gap-2 bg-black/70 text-white text-sm px-3 py-2 rounded-lg shadow-lg">
+      <label
+        className="flex items-center gap-2"
+        title={
+          isOutlineSupported
+            ? "Draw silhouettes and creases"
+            : "Not supported by this browser"
+        }
+      >
+        <input
+          type="checkbox"
+          checked={isOutlined}
+          disabled={!isOutlineSupported}
+          onChange={(e) =>
+            onOutlineChange({ ...outline, enabled: e.target.checked })
+          }
+        />
+        Outlines
+        <input
+          type="color"
+          value={toHex(outline.color)}
+          disabled={!isOutlined}
+          onChange={(e) =>
+            onOutlineChange({ ...outline, color: fromHex(e.target.value) })
+          }
+          className="w-6 h-6 bg-transparent ml-auto"
+          title="Outline colour"
+        />
+      </label>
+
+      <label className="flex items-center gap-2">
+        <span className="w-20">Width</span>
+        <input
+          type="range"
+          min={1}
+          max={5}
+          step={0.5}
+          value={outline.width}
+          disabled={!isOutlined}
+          onChange={(e) =>
+            onOutlineChange({ ...outline, width: parseFloat(e.target.value) })
+          }
+          className="w-28"
+        />
+        <span className="w-12 text-right">{outline.width} px</span>
+      </label>
+
+      <label
+        className="flex items-center gap-2"
+        title="Flat bands of light instead of smooth shading"
+      >
+        <input
+          type="checkbox"
+          checked={celShading}
+          onChange={(e) => onCelShadingChange(e.target.checked)}
+        />
+        Cel shading
+      </label>
+    </div>
+  );
+}
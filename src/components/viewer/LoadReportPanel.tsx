@@ -0,0 +1,69 @@
+// src/components/viewer/LoadReportPanel.tsx
+import React from "react";
+import { AlertCircle, AlertTriangle, X } from "lucide-react";
+import { LoadReport } from "./types";
+
+interface LoadReportPanelProps {
+  report: LoadReport | null;
+  onDismiss: () => void;
+}
+
+// Long reports (e.g. a file with an unknown element on every line) are cut
+// off; the counts in the header stay exact
+const MAX_LISTED_DIAGNOSTICS = 200;
+
+export function LoadReportPanel({ report, onDismiss }: LoadReportPanelProps) {
+  if (!report || report.diagnostics.length === 0) return null;
+
+  const errorCount = report.diagnostics.filter(
+    (diagnostic) => diagnostic.severity === "error"
+  ).length;
+  const warningCount = report.diagnostics.length - errorCount;
+  const listed = report.diagnostics.slice(0, MAX_LISTED_DIAGNOSTICS);
+
+  return (
+    <div
+      className={`absolute top-4 left-1/2 -translate-x-1/2 w-full max-w-lg border rounded shadow-lg ${
+        errorCount > 0
+          ? "bg-red-100 border-red-400 text-red-700"
+          : "bg-yellow-100 border-yellow-400 text-yellow-800"
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2 px-4 py-3">
+        <div>
+          <p className="font-semibold">Load report: {report.fileName}</p>
+          <p className="text-sm">
+            {errorCount} error{errorCount === 1 ? "" : "s"}, {warningCount}{" "}
+            warning{warningCount === 1 ? "" : "s"}
+          </p>
+        </div>
+        <button onClick={onDismiss} title="Dismiss" className="p-1">
+          <X size={16} />
+        </button>
+      </div>
+
+      <ul className="max-h-60 overflow-y-auto px-4 pb-3 space-y-1 text-sm">
+        {listed.map((diagnostic, index) => (
+          <li key={index} className="flex items-start gap-2">
+            {diagnostic.severity === "error" ? (
+              <AlertCircle size={14} className="mt-0.5 shrink-0" />
+            ) : (
+              <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+            )}
+            <span>
+              {diagnostic.line !== null && (
+                <span className="font-mono">Line {diagnostic.line}: </span>
+              )}
+              {diagnostic.message}
+            </span>
+          </li>
+        ))}
+        {report.diagnostics.length > listed.length && (
+          <li className="italic">
+            and {report.diagnostics.length - listed.length} more
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
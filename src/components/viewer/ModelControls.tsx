@@ -0,0 +1,92 @@
+// src/components/viewer/ModelControls.tsx
+import React from "react";
+import { Layers, Pause, Play, SkipBack, SkipForward } from "lucide-react";
+
+interface ModelControlsProps {
+  modelLabels: string[]; // One label per model or SDF record, in file order
+  modelIndex: number;
+  isPlaying: boolean;
+  overlay: boolean;
+  onModelChange: (index: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onOverlayChange: (overlay: boolean) => void;
+}
+
+export function ModelControls({
+  modelLabels,
+  modelIndex,
+  isPlaying,
+  overlay,
+  onModelChange,
+  onPlayingChange,
+  onOverlayChange,
+}: ModelControlsProps) {
+  const modelCount = modelLabels.length;
+
+  const step = (delta: number) => {
+    onPlayingChange(false);
+    onModelChange((modelIndex + delta + modelCount) % modelCount);
+  };
+
+  const buttonClass = "p-2 rounded bg-gray-200 hover:bg-gray-300 text-gray-700";
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/70 text-white px-3 py-2 rounded-lg shadow-lg">
+      <button onClick={() => step(-1)} className={buttonClass} title="Previous">
+        <SkipBack size={16} />
+      </button>
+      <button
+        onClick={() => onPlayingChange(!isPlaying)}
+        className={buttonClass}
+        title={isPlaying ? "Pause" : "Play"}
+      >
+        {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+      </button>
+      <button onClick={() => step(1)} className={buttonClass} title="Next">
+        <SkipForward size={16} />
+      </button>
+
+      <select
+        value={modelIndex}
+        onChange={(e) => {
+          onPlayingChange(false);
+          onModelChange(parseInt(e.target.value, 10));
+        }}
+        className="max-w-[12rem] bg-gray-800 text-white text-sm rounded px-2 py-1"
+      >
+        {modelLabels.map((label, index) => (
+          <option key={index} value={index}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="range"
+        min={0}
+        max={modelCount - 1}
+        value={modelIndex}
+        onChange={(e) => {
+          onPlayingChange(false);
+          onModelChange(parseInt(e.target.value, 10));
+        }}
+        className="w-40"
+        title="Frame"
+      />
+      <span className="text-sm text-gray-400">
+        {modelIndex + 1} / {modelCount}
+      </span>
+
+      <button
+        onClick={() => onOverlayChange(!overlay)}
+        className={`p-2 rounded ${
+          overlay
+            ? "bg-blue-500 text-white"
+            : "bg-gray-200 hover:bg-gray-300 text-gray-700"
+        }`}
+        title="Overlay All Models"
+      >
+        <Layers size={16} />
+      </button>
+    </div>
+  );
+}
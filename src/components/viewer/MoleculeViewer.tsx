@@ -1,35 +1,105 @@
 "use client";
 import { useAtomSelection } from "./hooks/useAtomSelection";
 import { Matrix4 } from "./utils/matrix";
-import { useRef, useState, useEffect } from "react";
+import { useRef, useState, useEffect, useMemo } from "react";
 import { useWebGL } from "./hooks/useWebGL";
 import { useGeometry } from "./hooks/useGeometry";
 import { useRender } from "./hooks/useRender";
+import { useRepresentationData } from "./hooks/useRepresentationData";
+import { useLevelOfDetail } from "./hooks/useLevelOfDetail";
+import {
+  AmbientOcclusionOptions,
+  DEFAULT_AMBIENT_OCCLUSION_OPTIONS,
+  DEFAULT_OUTLINE_OPTIONS,
+  OutlineOptions,
+  usePostProcessing,
+} from "./hooks/usePostProcessing";
 import { useCameraControls } from "./hooks/useCameraControls";
 import { FileUpload } from "../ui/FileUpload";
 import { DebugOverlay } from "./DebugOverlay";
 import { ControlsOverlay } from "./ControlsOverlay";
-import { ViewerState, CameraState, ViewMode, AtomInfo } from "./types";
+import {
+  ViewerState,
+  CameraState,
+  ViewMode,
+  LoadReport,
+  Representation,
+} from "./types";
 import { ViewModeToggle } from "./ViewModeToggle";
 import { AtomInfoDisplay } from "./AtomInfoDisplay";
-import { parseAtomsWithMetadata } from "./utils/pdbParser";
+import { ModelControls } from "./ModelControls";
+import { RecordInfoDisplay } from "./RecordInfoDisplay";
+import { LoadReportPanel } from "./LoadReportPanel";
+import { SurfaceControls } from "./SurfaceControls";
+import { AmbientOcclusionControls } from "./AmbientOcclusionControls";
+import { IllustrationControls } from "./IllustrationControls";
+import { DepthCueingControls } from "./DepthCueingControls";
+import { ColorLegendPanel } from "./ColorLegendPanel";
+import {
+  createRepresentation,
+  RepresentationPanel,
+} from "./RepresentationPanel";
+import {
+  extractAtomsWithMetadata,
+  extractDrawnPositions,
+  extractModelRenderData,
+  getTopologyReference,
+  moveModelData,
+} from "./utils/pdbParser";
+import { AtomColorScheme, getColorLegend } from "./utils/colorSchemes";
+import {
+  ClippingSlab,
+  clippingPlanes,
+  DEFAULT_CLIPPING_SLAB,
+  DEFAULT_FOG_OPTIONS,
+  FogOptions,
+  moveSlabPlane,
+} from "./utils/depthCueing";
+import { parseStructure } from "@/lib/structure/loader";
+import { readStructureText } from "@/lib/structure/gzip";
+import { Structure } from "@/lib/structure/types";
+import {
+  DEFAULT_SURFACE_OPTIONS,
+  SurfaceOptions,
+} from "@/lib/structure/surface";
+
+const MODEL_PLAYBACK_INTERVAL = 500; // ms per model
+const OVERLAY_OPACITY = 0.25;
+const SLAB_STEP = 1; // Å per scroll notch
 
 export function MoleculeViewer() {
   // Refs and state
-  const [atomsMetadata, setAtomsMetadata] = useState<AtomInfo[]>([]);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [instanceData, setInstanceData] = useState<Float32Array | null>(null);
+  const [structure, setStructure] = useState<Structure | null>(null);
+  const [modelIndex, setModelIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [overlayModels, setOverlayModels] = useState(false);
+  const [loadReport, setLoadReport] = useState<LoadReport | null>(null);
+  const [representations, setRepresentations] = useState<Representation[]>(
+    () => [createRepresentation(ViewMode.SPHERES, "all")]
+  );
+  const [surfaceOptions, setSurfaceOptions] = useState<SurfaceOptions>(
+    DEFAULT_SURFACE_OPTIONS
+  );
+  const [ambientOcclusionOptions, setAmbientOcclusionOptions] =
+    useState<AmbientOcclusionOptions>(DEFAULT_AMBIENT_OCCLUSION_OPTIONS);
+  const [outlineOptions, setOutlineOptions] = useState<OutlineOptions>(
+    DEFAULT_OUTLINE_OPTIONS
+  );
+  const [celShading, setCelShading] = useState(false);
+  const [fogOptions, setFogOptions] = useState<FogOptions>(DEFAULT_FOG_OPTIONS);
+  const [clippingSlab, setClippingSlab] = useState<ClippingSlab>(
+    DEFAULT_CLIPPING_SLAB
+  );
   const [debugMode, setDebugMode] = useState(
     process.env.NODE_ENV === "development"
   );
   const [viewerState, setViewerState] = useState<ViewerState>({
     isLoading: false,
-    error: null,
     isDragging: false,
     lastMousePos: { x: 0, y: 0 },
     mouseButton: null,
     isPanning: false,
-    viewMode: ViewMode.SPHERES,
   });
   const [camera, setCamera] = useState<CameraState>({
     rotation: [0, 0],
@@ -39,14 +109,90 @@ export function MoleculeViewer() {
     velocity: [0, 0, 0],
   });
 
-  const [backboneAtoms, setBackboneAtoms] = useState<
-    | {
-        position: [number, number, number];
-        residueIndex: number;
-        secondaryStructure: "helix" | "sheet" | "coil";
-      }[]
-    | null
-  >(null);
+  // Atoms, metadata and backbone of the displayed model. Frames with the
+  // topology of an earlier model (trajectories, most NMR ensembles) share
+  // its data; their positions, and their secondary structure when it comes
+  // from DSSP, are their own.
+  const referenceIndex = structure
+    ? getTopologyReference(structure, modelIndex)
+    : modelIndex;
+  const modelData = useMemo(
+    () =>
+      structure ? extractAtomsWithMetadata(structure, referenceIndex) : null,
+    [structure, referenceIndex]
+  );
+  const framePositions = useMemo(
+    () =>
+      structure && modelIndex !== referenceIndex
+        ? extractDrawnPositions(structure, modelIndex)
+        : null,
+    [structure, modelIndex, referenceIndex]
+  );
+  const frameData = useMemo(
+    () =>
+      structure && modelData && framePositions
+        ? moveModelData(structure, modelIndex, modelData, framePositions)
+        : modelData,
+    [structure, modelIndex, modelData, framePositions]
+  );
+  const instanceData = frameData?.renderData ?? null;
+  const atomsMetadata = frameData?.atomsMetadata ?? [];
+
+  // Tessellation, coarser for large models and when frames are slow
+  const { detail, reportFrameTime } = useLevelOfDetail(atomsMetadata.length);
+
+  // Geometry of each visible representation
+  const representationData = useRepresentationData(
+    structure,
+    modelIndex,
+    modelData,
+    frameData,
+    representations,
+    surfaceOptions,
+    detail.tube
+  );
+
+  // One legend per colour scheme on screen; by default cartoons are
+  // coloured by secondary structure and everything else by element
+  const colorLegends = useMemo(() => {
+    if (!frameData) return [];
+
+    const schemes = new Set<AtomColorScheme>();
+    representations.forEach(({ visible, type, colorScheme }) => {
+      if (!visible || colorScheme === "uniform") return;
+      if (colorScheme !== "default") {
+        schemes.add(colorScheme);
+      } else {
+        schemes.add(
+          type === ViewMode.RIBBON ? "secondary-structure" : "element"
+        );
+      }
+    });
+    return [...schemes].map((scheme) =>
+      getColorLegend(scheme, frameData.atomsMetadata)
+    );
+  }, [representations, frameData]);
+
+  // The other models of the ensemble, drawn semi-transparently
+  const overlayData = useMemo(() => {
+    if (!structure || !overlayModels || structure.models.length < 2) {
+      return null;
+    }
+
+    const models = structure.models
+      .map((_, index) => index)
+      .filter((index) => index !== modelIndex)
+      .map((index) => extractModelRenderData(structure, index));
+    const data = new Float32Array(
+      models.reduce((total, model) => total + model.length, 0)
+    );
+    let offset = 0;
+    models.forEach((model) => {
+      data.set(model, offset);
+      offset += model.length;
+    });
+    return data;
+  }, [structure, modelIndex, overlayModels]);
 
   const { selectedAtom, selectAtomAtPosition } = useAtomSelection(
     camera,
@@ -54,30 +200,38 @@ export function MoleculeViewer() {
   );
 
   // Initialize WebGL context and setup
-  const { gl, program, locations, extensions } = useWebGL(canvasRef.current);
+  const { gl, program, locations, impostor, extensions, cameraBuffer } =
+    useWebGL(canvasRef.current);
+
+  // Screen-space ambient occlusion and outlines, toggleable for slower
+  // machines
+  const { applyPostProcessing, isSupported: isPostProcessingSupported } =
+    usePostProcessing(gl, extensions, ambientOcclusionOptions, outlineOptions);
 
   // Initialize geometry with extensions
-  const { buffers, updateInstanceData, updateRibbonData } = useGeometry(
-    gl,
-    program,
-    extensions,
-    viewerState.viewMode
-  );
+  const { buffers, layers, updateInstanceData, updateOverlayData } =
+    useGeometry(
+      gl,
+      program,
+      extensions,
+      impostor !== null,
+      representationData,
+      detail
+    );
 
   // Initialize camera controls
   const { pan, rotate, zoom, reset } = useCameraControls(camera, setCamera);
 
+  // The toolbar shows everything in one style, replacing the layers
   const handleViewModeChange = (mode: ViewMode) => {
-    setViewerState((prev) => ({ ...prev, viewMode: mode }));
-    // Update ribbon data when switching to ribbon mode
-    if (mode === ViewMode.RIBBON && backboneAtoms) {
-      updateRibbonData(backboneAtoms);
-    }
+    setRepresentations([createRepresentation(mode, "all")]);
   };
+  const currentMode =
+    representations.length === 1 ? representations[0].type : null;
 
   // Calculate molecule bounds and center
-  const getMoleculeBounds = () => {
-    if (!instanceData || instanceData.length === 0) return null;
+  const getMoleculeBounds = (data: Float32Array | null = instanceData) => {
+    if (!data || data.length === 0) return null;
 
     let minX = Infinity,
       minY = Infinity,
@@ -86,13 +240,13 @@ export function MoleculeViewer() {
       maxY = -Infinity,
       maxZ = -Infinity;
 
-    for (let i = 0; i < instanceData.length; i += 7) {
-      minX = Math.min(minX, instanceData[i]);
-      minY = Math.min(minY, instanceData[i + 1]);
-      minZ = Math.min(minZ, instanceData[i + 2]);
-      maxX = Math.max(maxX, instanceData[i]);
-      maxY = Math.max(maxY, instanceData[i + 1]);
-      maxZ = Math.max(maxZ, instanceData[i + 2]);
+    for (let i = 0; i < data.length; i += 7) {
+      minX = Math.min(minX, data[i]);
+      minY = Math.min(minY, data[i + 1]);
+      minZ = Math.min(minZ, data[i + 2]);
+      maxX = Math.max(maxX, data[i]);
+      maxY = Math.max(maxY, data[i + 1]);
+      maxZ = Math.max(maxZ, data[i + 2]);
     }
 
     return {
@@ -102,8 +256,8 @@ export function MoleculeViewer() {
   };
 
   // Center molecule while preserving rotation
-  const centerMolecule = () => {
-    const bounds = getMoleculeBounds();
+  const centerMolecule = (data?: Float32Array) => {
+    const bounds = getMoleculeBounds(data);
     if (!bounds) return;
 
     setCamera((prev) => ({
@@ -162,6 +316,21 @@ export function MoleculeViewer() {
 
   const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
     e.preventDefault();
+
+    // Shift and Alt + scroll move the near and far planes of the clipping
+    // slab, scrolling down moving them away from the viewer, and switch it
+    // on. Some browsers turn Shift + scroll sideways.
+    if (e.shiftKey || e.altKey) {
+      const step = Math.sign(e.deltaY || e.deltaX) * SLAB_STEP;
+      setClippingSlab((slab) => ({
+        ...(e.shiftKey
+          ? moveSlabPlane(slab, "near", slab.near - step)
+          : moveSlabPlane(slab, "far", slab.far + step)),
+        enabled: true,
+      }));
+      return;
+    }
+
     zoom(e.deltaY);
   };
 
@@ -172,12 +341,17 @@ export function MoleculeViewer() {
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
 
+    // The planes of the slab, so clipped atoms are not picked
+    const [near, far] = clippingPlanes(
+      camera.distance - camera.position[2],
+      clippingSlab
+    );
     const projection = new Matrix4();
     projection.perspective(
       Math.PI / 4,
       canvasRef.current.width / canvasRef.current.height,
-      0.1,
-      1000.0
+      near,
+      far
     );
 
     const view = new Matrix4();
@@ -204,14 +378,22 @@ export function MoleculeViewer() {
     gl,
     program,
     locations,
+    impostor,
     extensions,
+    cameraBuffer,
     buffers,
-    instanceCount: instanceData ? instanceData.length / 7 : 0,
+    layers,
+    overlayInstanceCount: overlayData ? overlayData.length / 7 : 0,
+    overlayOpacity: OVERLAY_OPACITY,
+    postProcessing: applyPostProcessing,
+    celShading,
+    fog: fogOptions,
+    slab: clippingSlab,
+    onFrameTime: reportFrameTime,
     rotation: camera.rotation,
     distance: camera.distance,
     position: camera.position,
     target: camera.target,
-    viewMode: viewerState.viewMode,
   });
 
   // Window resize handler
@@ -286,51 +468,67 @@ export function MoleculeViewer() {
     };
   }, [pan]);
 
-  // Add effect to handle view mode changes
   useEffect(() => {
-    if (viewerState.viewMode === ViewMode.RIBBON && backboneAtoms) {
-      console.log("Updating ribbon data due to view mode change");
-      updateRibbonData(backboneAtoms);
-    }
-  }, [viewerState.viewMode, backboneAtoms, updateRibbonData]);
+    if (overlayData) updateOverlayData(overlayData);
+  }, [overlayData, updateOverlayData]);
+
+  // Move the atoms and bonds to the displayed frame, including layers
+  // uploaded since
+  useEffect(() => {
+    updateInstanceData(framePositions);
+  }, [framePositions, layers, updateInstanceData]);
+
+  // Step through the models of an ensemble while playing
+  useEffect(() => {
+    const modelCount = structure?.models.length ?? 0;
+    if (!isPlaying || modelCount < 2) return;
+
+    const timer = setInterval(() => {
+      setModelIndex((prev) => (prev + 1) % modelCount);
+    }, MODEL_PLAYBACK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isPlaying, structure]);
 
   // PDB data handler
-  const handlePDBData = async (data: Uint8Array) => {
+  const handlePDBData = async (data: Uint8Array, fileName: string) => {
     try {
-      setViewerState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-      const text = new TextDecoder().decode(data);
-      const {
-        renderData,
-        atomsMetadata,
-        backboneAtoms: parsedBackboneAtoms,
-      } = parseAtomsWithMetadata(text);
-
-      setInstanceData(renderData);
-      setAtomsMetadata(atomsMetadata);
-      updateInstanceData(renderData);
-
-      // Store backbone atoms and update ribbon if needed
-      if (parsedBackboneAtoms) {
-        console.log("Setting backbone atoms:", parsedBackboneAtoms.length);
-        setBackboneAtoms(parsedBackboneAtoms);
-
-        if (viewerState.viewMode === ViewMode.RIBBON) {
-          updateRibbonData(parsedBackboneAtoms);
-        }
-      }
-
-      // Center the molecule after a short delay
-      setTimeout(centerMolecule, 100);
+      setViewerState((prev) => ({ ...prev, isLoading: true }));
+      setLoadReport(null);
+
+      const file = await readStructureText(data, fileName);
+      const loaded = parseStructure(file.text, file.fileName);
+      console.log("Parsed structure:", {
+        idCode: loaded.header?.idCode,
+        title: loaded.title,
+        models: loaded.models.length,
+        atoms: loaded.models[0]?.atoms.length ?? 0,
+        helices: loaded.helices.length,
+        sheetStrands: loaded.sheets.length,
+        diagnostics: loaded.diagnostics.length,
+      });
+      setLoadReport({ fileName, diagnostics: loaded.diagnostics });
+
+      setStructure(loaded);
+      setModelIndex(0);
+      setIsPlaying(false);
+
+      // Center the molecule on its first model
+      centerMolecule(extractModelRenderData(loaded, 0));
     } catch (error) {
       console.error("Error loading PDB data:", error);
-      setViewerState((prev) => ({
-        ...prev,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Failed to load molecule data",
-      }));
+      setLoadReport({
+        fileName,
+        diagnostics: [
+          {
+            severity: "error",
+            line: null,
+            message:
+              error instanceof Error
+                ? error.message
+                : "Failed to load molecule data",
+          },
+        ],
+      });
     } finally {
       setViewerState((prev) => ({ ...prev, isLoading: false }));
     }
@@ -350,9 +548,43 @@ export function MoleculeViewer() {
         onDoubleClick={handleDoubleClick}
       />
       <ViewModeToggle
-        currentMode={viewerState.viewMode}
+        currentMode={currentMode}
         onModeChange={handleViewModeChange}
       />
+      <div className="absolute top-16 left-4 flex flex-col gap-2">
+        <RepresentationPanel
+          representations={representations}
+          onRepresentationsChange={setRepresentations}
+        />
+        {representations.some(
+          ({ type, visible }) => visible && type === ViewMode.SURFACE
+        ) && (
+          <SurfaceControls
+            options={surfaceOptions}
+            onOptionsChange={setSurfaceOptions}
+          />
+        )}
+        <AmbientOcclusionControls
+          options={ambientOcclusionOptions}
+          isSupported={isPostProcessingSupported}
+          onOptionsChange={setAmbientOcclusionOptions}
+        />
+        <IllustrationControls
+          outline={outlineOptions}
+          celShading={celShading}
+          isOutlineSupported={isPostProcessingSupported}
+          onOutlineChange={setOutlineOptions}
+          onCelShadingChange={setCelShading}
+        />
+        <DepthCueingControls
+          fog={fogOptions}
+          slab={clippingSlab}
+          onFogChange={setFogOptions}
+          onSlabChange={setClippingSlab}
+        />
+      </div>
+
+      <ColorLegendPanel legends={colorLegends} />
 
       <DebugOverlay
         isVisible={debugMode}
@@ -375,6 +607,22 @@ export function MoleculeViewer() {
         atom={selectedAtom ? atomsMetadata[selectedAtom.index] : null}
       />
 
+      <RecordInfoDisplay model={structure?.models[modelIndex] ?? null} />
+
+      {structure && structure.models.length > 1 && (
+        <ModelControls
+          modelLabels={structure.models.map(
+            (model) => model.name || `Model ${model.serial}`
+          )}
+          modelIndex={modelIndex}
+          isPlaying={isPlaying}
+          overlay={overlayModels}
+          onModelChange={setModelIndex}
+          onPlayingChange={setIsPlaying}
+          onOverlayChange={setOverlayModels}
+        />
+      )}
+
       <FileUpload onPDBLoad={handlePDBData} />
 
       {viewerState.isLoading && (
@@ -388,12 +636,10 @@ export function MoleculeViewer() {
         </div>
       )}
 
-      {viewerState.error && (
-        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow-lg max-w-md">
-          <p className="font-semibold">Error</p>
-          <p>{viewerState.error}</p>
-        </div>
-      )}
+      <LoadReportPanel
+        report={loadReport}
+        onDismiss={() => setLoadReport(null)}
+      />
 
       {debugMode && (
         <div className="absolute bottom-4 left-4 text-white text-sm bg-black/50 px-2 py-1 rounded">
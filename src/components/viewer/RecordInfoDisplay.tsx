@@ -0,0 +1,44 @@
+// src/components/viewer/RecordInfoDisplay.tsx
+
+import { StructureModel } from "@/lib/structure/types";
+
+interface RecordInfoDisplayProps {
+  model: StructureModel | null;
+}
+
+const BOND_LABELS = ["", "single", "double", "triple", "aromatic"];
+
+// Name, bond summary and data items of an SDF/MOL record
+export function RecordInfoDisplay({ model }: RecordInfoDisplayProps) {
+  if (!model || (!model.name && !model.dataFields?.length)) return null;
+
+  const bondCounts = new Map<number, number>();
+  model.bonds.forEach((bond) => {
+    bondCounts.set(bond.order, (bondCounts.get(bond.order) ?? 0) + 1);
+  });
+
+  return (
+    <div className="absolute top-20 right-4 max-w-xs max-h-[60%] overflow-y-auto bg-black/70 text-white px-4 py-3 rounded-lg shadow-lg">
+      <h3 className="font-semibold mb-1 break-words">
+        {model.name || `Record ${model.serial}`}
+      </h3>
+      <p className="text-sm text-gray-400 mb-2">
+        {model.atoms.length} atoms, {model.bonds.length} bonds
+        {Array.from(bondCounts.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([order, count]) => ` · ${count} ${BOND_LABELS[order] ?? order}`)
+          .join("")}
+      </p>
+      {model.dataFields && model.dataFields.length > 0 && (
+        <dl className="space-y-1 text-sm">
+          {model.dataFields.map((field, index) => (
+            <div key={index}>
+              <dt className="text-gray-400">{field.name}</dt>
+              <dd className="whitespace-pre-wrap break-words">{field.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
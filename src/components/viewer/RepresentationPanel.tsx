@@ -0,0 +1,245 @@
+// src/components/viewer/RepresentationPanel.tsx
+import React, { useEffect, useState } from "react";
+import { Eye, EyeOff, Plus, Sparkles, Trash2 } from "lucide-react";
+import { validateSelection } from "@/lib/structure/selection";
+import { ColorScheme, Representation, ViewMode } from "./types";
+import { COLOR_SCHEMES, fromHex, toHex } from "./utils/colorSchemes";
+
+interface RepresentationPanelProps {
+  representations: Representation[];
+  onRepresentationsChange: (representations: Representation[]) => void;
+}
+
+const TYPE_LABELS: { type: ViewMode; label: string }[] = [
+  { type: ViewMode.SPHERES, label: "Spheres" },
+  { type: ViewMode.BALL_AND_STICK, label: "Ball-and-stick" },
+  { type: ViewMode.LICORICE, label: "Licorice" },
+  { type: ViewMode.LINES, label: "Lines" },
+  { type: ViewMode.SURFACE, label: "Surface" },
+  { type: ViewMode.RIBBON, label: "Cartoon" },
+];
+
+const DEFAULT_UNIFORM_COLOR: [number, number, number] = [0.8, 0.8, 0.8];
+
+let nextRepresentationId = 1;
+
+export function createRepresentation(
+  type: ViewMode,
+  selection: string,
+  overrides: Partial<Representation> = {}
+): Representation {
+  return {
+    id: nextRepresentationId++,
+    type,
+    selection,
+    colorScheme: "default",
+    color: DEFAULT_UNIFORM_COLOR,
+    opacity: 1,
+    visible: true,
+    ...overrides,
+  };
+}
+
+// The usual publication figure: cartoon, ligands as sticks and a white
+// surface over the binding site
+const createFigurePreset = (): Representation[] => [
+  createRepresentation(ViewMode.RIBBON, "protein or nucleic"),
+  createRepresentation(ViewMode.BALL_AND_STICK, "ligand"),
+  createRepresentation(ViewMode.SURFACE, "protein and within 5 of ligand", {
+    colorScheme: "uniform",
+    color: [1, 1, 1],
+  }),
+];
+
+const selectionError = (expression: string): string | null => {
+  try {
+    validateSelection(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid selection";
+  }
+};
+
+interface RepresentationRowProps {
+  representation: Representation;
+  onChange: (representation: Representation) => void;
+  onDelete: () => void;
+}
+
+// Selections are applied on Enter or when the field loses focus, so a
+// half-typed expression never triggers a rebuild
+function RepresentationRow({
+  representation,
+  onChange,
+  onDelete,
+}: RepresentationRowProps) {
+  const [draft, setDraft] = useState(representation.selection);
+  useEffect(() => setDraft(representation.selection), [representation]);
+
+  const error = selectionError(draft);
+  const applySelection = () => {
+    if (!error && draft !== representation.selection) {
+      onChange({ ...representation, selection: draft });
+    }
+  };
+
+  const selectClass = "bg-gray-800 text-white text-sm rounded px-2 py-1";
+
+  return (
+    <li className="flex flex-col gap-1 border-t border-gray-700 pt-2 first:border-t-0 first:pt-0">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() =>
+            onChange({ ...representation, visible: !representation.visible })
+          }
+          title={representation.visible ? "Hide" : "Show"}
+          className="p-1"
+        >
+          {representation.visible ? <Eye size={16} /> : <EyeOff size={16} />}
+        </button>
+        <select
+          value={representation.type}
+          onChange={(e) =>
+            onChange({ ...representation, type: e.target.value as ViewMode })
+          }
+          className={selectClass}
+          title="Style"
+        >
+          {TYPE_LABELS.map(({ type, label }) => (
+            <option key={type} value={type}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={representation.colorScheme}
+          onChange={(e) =>
+            onChange({
+              ...representation,
+              colorScheme: e.target.value as ColorScheme,
+            })
+          }
+          className={selectClass}
+          title="Colour"
+        >
+          <option value="default">Default</option>
+          {Object.entries(COLOR_SCHEMES).map(([scheme, { label }]) => (
+            <option key={scheme} value={scheme}>
+              {label}
+            </option>
+          ))}
+          <option value="uniform">Uniform</option>
+        </select>
+        {representation.colorScheme === "uniform" && (
+          <input
+            type="color"
+            value={toHex(representation.color)}
+            onChange={(e) =>
+              onChange({ ...representation, color: fromHex(e.target.value) })
+            }
+            className="w-6 h-6 bg-transparent"
+            title="Uniform colour"
+          />
+        )}
+        <button onClick={onDelete} title="Remove" className="p-1 ml-auto">
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={draft}
+        placeholder="all"
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={applySelection}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") applySelection();
+        }}
+        className={`bg-gray-800 text-white text-sm font-mono rounded px-2 py-1 border ${
+          error ? "border-red-500" : "border-transparent"
+        }`}
+        title={error ?? "Selection"}
+        spellCheck={false}
+      />
+      {error && <p className="text-xs text-red-400 max-w-[18rem]">{error}</p>}
+
+      <label className="flex items-center gap-2" title="Opacity">
+        <span className="w-16">Opacity</span>
+        <input
+          type="range"
+          min={0.1}
+          max={1}
+          step={0.05}
+          value={representation.opacity}
+          onChange={(e) =>
+            onChange({
+              ...representation,
+              opacity: parseFloat(e.target.value),
+            })
+          }
+          className="flex-1"
+        />
+        <span className="w-10 text-right">
+          {Math.round(representation.opacity * 100)}%
+        </span>
+      </label>
+    </li>
+  );
+}
+
+export function RepresentationPanel({
+  representations,
+  onRepresentationsChange,
+}: RepresentationPanelProps) {
+  const buttonClass =
+    "flex items-center gap-1 px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 text-gray-700";
+
+  return (
+    <div className="flex flex-col gap-2 bg-black/70 text-white text-sm px-3 py-2 rounded-lg shadow-lg w-80">
+      <ul className="flex flex-col gap-2 max-h-96 overflow-y-auto">
+        {representations.map((representation) => (
+          <RepresentationRow
+            key={representation.id}
+            representation={representation}
+            onChange={(changed) =>
+              onRepresentationsChange(
+                representations.map((entry) =>
+                  entry.id === changed.id ? changed : entry
+                )
+              )
+            }
+            onDelete={() =>
+              onRepresentationsChange(
+                representations.filter(
+                  (entry) => entry.id !== representation.id
+                )
+              )
+            }
+          />
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() =>
+            onRepresentationsChange([
+              ...representations,
+              createRepresentation(ViewMode.BALL_AND_STICK, "all"),
+            ])
+          }
+          className={buttonClass}
+          title="Add representation"
+        >
+          <Plus size={14} /> Add
+        </button>
+        <button
+          onClick={() => onRepresentationsChange(createFigurePreset())}
+          className={buttonClass}
+          title="Cartoon, ligand sticks and binding-site surface"
+        >
+          <Sparkles size={14} /> Figure
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// src/components/viewer/SurfaceControls.tsx
+import React from "react";
+import { SurfaceOptions, SurfaceType } from "@/lib/structure/surface";
+
+interface SurfaceControlsProps {
+  options: SurfaceOptions;
+  onOptionsChange: (options: SurfaceOptions) => void;
+}
+
+const SURFACE_TYPES: { type: SurfaceType; label: string }[] = [
+  { type: "ses", label: "Solvent excluded" },
+  { type: "sas", label: "Solvent accessible" },
+  { type: "gaussian", label: "Gaussian" },
+];
+
+// Grid spacings in Å; finer grids take cubically longer to compute
+const RESOLUTIONS = [0.3, 0.5, 0.75, 1.0, 1.5];
+
+export function SurfaceControls({
+  options,
+  onOptionsChange,
+}: SurfaceControlsProps) {
+  const selectClass = "bg-gray-800 text-white text-sm rounded px-2 py-1";
+
+  return (
+    <div className="flex flex-col gap-2 bg-black/70 text-white text-sm px-3 py-2 rounded-lg shadow-lg">
+      <select
+        value={options.type}
+        onChange={(e) =>
+          onOptionsChange({ ...options, type: e.target.value as SurfaceType })
+        }
+        className={selectClass}
+        title="Surface Type"
+      >
+        {SURFACE_TYPES.map(({ type, label }) => (
+          <option key={type} value={type}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      <label className="flex items-center gap-2">
+        <span className="w-20">Probe</span>
+        <input
+          type="range"
+          min={0}
+          max={3}
+          step={0.1}
+          value={options.probeRadius}
+          disabled={options.type === "gaussian"}
+          onChange={(e) =>
+            onOptionsChange({
+              ...options,
+              probeRadius: parseFloat(e.target.value),
+            })
+          }
+          className="w-28"
+        />
+        <span className="w-12 text-right">
+          {options.probeRadius.toFixed(1)} Å
+        </span>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <span className="w-20">Resolution</span>
+        <select
+          value={options.resolution}
+          onChange={(e) =>
+            onOptionsChange({
+              ...options,
+              resolution: parseFloat(e.target.value),
+            })
+          }
+          className={selectClass}
+        >
+          {RESOLUTIONS.map((resolution) => (
+            <option key={resolution} value={resolution}>
+              {resolution} Å
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
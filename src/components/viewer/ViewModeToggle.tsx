@@ -1,10 +1,17 @@
 // src/components/viewer/ViewModeToggle.tsx
 import React from "react";
-import { CircleDot, LayoutGrid } from "lucide-react"; // Changed icons
+import {
+  Atom,
+  CircleDot,
+  Cloud,
+  GitCommitHorizontal,
+  LayoutGrid,
+  Waypoints,
+} from "lucide-react"; // Changed icons
 import { ViewMode } from "./types";
 
 interface ViewModeToggleProps {
-  currentMode: ViewMode;
+  currentMode: ViewMode | null; // null when several layers are shown
   onModeChange: (mode: ViewMode) => void;
 }
 
@@ -25,6 +32,50 @@ export function ViewModeToggle({
       >
         <CircleDot size={20} /> {/* Changed from Sphere */}
       </button>
+      <button
+        onClick={() => onModeChange(ViewMode.BALL_AND_STICK)}
+        className={`p-2 ${
+          currentMode === ViewMode.BALL_AND_STICK
+            ? "bg-blue-500 text-white"
+            : "bg-gray-200 hover:bg-gray-300 text-gray-700"
+        }`}
+        title="Ball-and-Stick View"
+      >
+        <Atom size={20} />
+      </button>
+      <button
+        onClick={() => onModeChange(ViewMode.LICORICE)}
+        className={`p-2 ${
+          currentMode === ViewMode.LICORICE
+            ? "bg-blue-500 text-white"
+            : "bg-gray-200 hover:bg-gray-300 text-gray-700"
+        }`}
+        title="Licorice View"
+      >
+        <GitCommitHorizontal size={20} />
+      </button>
+      <button
+        onClick={() => onModeChange(ViewMode.LINES)}
+        className={`p-2 ${
+          currentMode === ViewMode.LINES
+            ? "bg-blue-500 text-white"
+            : "bg-gray-200 hover:bg-gray-300 text-gray-700"
+        }`}
+        title="Lines View"
+      >
+        <Waypoints size={20} />
+      </button>
+      <button
+        onClick={() => onModeChange(ViewMode.SURFACE)}
+        className={`p-2 ${
+          currentMode === ViewMode.SURFACE
+            ? "bg-blue-500 text-white"
+            : "bg-gray-200 hover:bg-gray-300 text-gray-700"
+        }`}
+        title="Surface View"
+      >
+        <Cloud size={20} />
+      </button>
       <button
         onClick={() => onModeChange(ViewMode.RIBBON)}
         className={`p-2 rounded-r ${
@@ -52,13 +52,21 @@ export function useAtomSelection(
         const radius = instanceData[i + 6];
 
         if (intersectSphere(ray, position, radius)) {
-          intersectionCount++;
           // Calculate distance to atom center
           const dx = position[0] - ray.origin[0];
           const dy = position[1] - ray.origin[1];
           const dz = position[2] - ray.origin[2];
           const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
 
+          // Skip atoms outside the near and far planes, which the clipping
+          // slab hides
+          const along =
+            dx * ray.direction[0] +
+            dy * ray.direction[1] +
+            dz * ray.direction[2];
+          if (along < 0 || along > ray.length) continue;
+          intersectionCount++;
+
           if (distance < closestDistance) {
             closestDistance = distance;
             closestAtom = {
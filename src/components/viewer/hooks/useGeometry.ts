@@ -1,72 +1,378 @@
 // src/components/viewer/hooks/useGeometry.ts
 
-import { useEffect, useRef } from "react";
-import { createSphereGeometry } from "../utils/geometry";
-import { createRibbonGeometry } from "../utils/ribbonGeometry";
-import { ViewMode, WebGLExtensions } from "../types";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createCylinderGeometry,
+  createSphereGeometry,
+  IndexChunk,
+  splitIndices,
+} from "../utils/geometry";
+import { DetailLevel } from "../utils/levelOfDetail";
+import { ATTRIBUTE_LOCATIONS } from "../utils/shaders";
+import { moveRepresentationInstances } from "../utils/pdbParser";
+import { RepresentationData, ViewMode, WebGLExtensions } from "../types";
+import { asWebGL2 } from "./useWebGL";
 
 interface GeometryBuffers {
-  // Sphere mode buffers
+  // Unit sphere, instanced for atoms
   position: WebGLBuffer | null;
   normal: WebGLBuffer | null;
   index: WebGLBuffer | null;
-  instance: WebGLBuffer | null;
   numIndices: number;
   numVertices: number;
 
-  // Ribbon mode buffers
-  ribbonPosition: WebGLBuffer | null;
-  ribbonNormal: WebGLBuffer | null;
-  ribbonIndex: WebGLBuffer | null;
-  ribbonColor: WebGLBuffer | null;
-  ribbonNumIndices: number;
+  // Quad for sphere impostors, two triangles
+  quadCorner: WebGLBuffer | null;
+  quadIndex: WebGLBuffer | null;
+
+  // Unit cylinder, instanced for half-bonds
+  cylinderPosition: WebGLBuffer | null;
+  cylinderNormal: WebGLBuffer | null;
+  cylinderIndex: WebGLBuffer | null;
+  cylinderNumIndices: number;
+
+  // Sphere instances of the overlaid models
+  overlayInstance: WebGLBuffer | null;
+  overlayVertexArray: WebGLVertexArrayObject | null; // WebGL2 only
 }
 
+// Buffers of one representation. Sphere modes fill the instance buffers;
+// lines, surfaces and cartoons fill the mesh buffers.
+export interface LayerBuffers {
+  type: ViewMode;
+  instance: WebGLBuffer | null;
+  instanceCount: number;
+  bondInstance: WebGLBuffer | null;
+  bondInstanceCount: number;
+  meshPosition: WebGLBuffer | null;
+  meshNormal: WebGLBuffer | null;
+  meshColor: WebGLBuffer | null;
+  meshIndex: WebGLBuffer | null;
+  meshIndexType: number; // UNSIGNED_INT or UNSIGNED_SHORT
+  meshChunks: IndexChunk[]; // Draw ranges of meshIndex
+  meshCount: number; // Vertices
+  center: [number, number, number]; // Of the bounding box, for depth sorting
+  opacity: number; // Of the representation, below 1 drawn translucent
+  // Atom positions the instances were last moved to, null while they are
+  // where the representation was built (see updateInstanceData)
+  positions: Float32Array | null;
+
+  // WebGL2 only: attribute state of the sphere or mesh draw, and of the
+  // bond draw
+  vertexArray: WebGLVertexArrayObject | null;
+  bondVertexArray: WebGLVertexArrayObject | null;
+}
+
+// Attribute of a WebGL2 vertex array: location, buffer, components, stride
+// and offset in bytes, and divisor (1 for per-instance data)
+type VertexAttribute = [
+  number,
+  WebGLBuffer | null,
+  number,
+  number,
+  number,
+  number
+];
+
+const createVertexArray = (
+  gl: WebGL2RenderingContext,
+  attributes: VertexAttribute[],
+  indexBuffer: WebGLBuffer | null
+): WebGLVertexArrayObject => {
+  const vertexArray = gl.createVertexArray();
+  if (!vertexArray) throw new Error("Failed to create vertex array");
+
+  gl.bindVertexArray(vertexArray);
+  attributes.forEach(([location, buffer, size, stride, offset, divisor]) => {
+    if (!buffer) return;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+    gl.vertexAttribDivisor(location, divisor);
+  });
+  gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+
+  // Unbound, so later index uploads cannot change it
+  gl.bindVertexArray(null);
+  return vertexArray;
+};
+
+// Sphere instances (position, colour, radius) over impostor quads, or over
+// the tessellated sphere when there is no impostor program
+const createSphereVertexArray = (
+  gl: WebGL2RenderingContext,
+  shared: GeometryBuffers,
+  instance: WebGLBuffer | null,
+  impostors: boolean
+): WebGLVertexArrayObject => {
+  const instanceAttributes: VertexAttribute[] = [
+    [ATTRIBUTE_LOCATIONS.instancePosition, instance, 3, 28, 0, 1],
+    [ATTRIBUTE_LOCATIONS.instanceColor, instance, 3, 28, 12, 1],
+    [ATTRIBUTE_LOCATIONS.instanceRadius, instance, 1, 28, 24, 1],
+  ];
+  return impostors
+    ? createVertexArray(
+        gl,
+        [
+          [ATTRIBUTE_LOCATIONS.corner, shared.quadCorner, 2, 0, 0, 0],
+          ...instanceAttributes,
+        ],
+        shared.quadIndex
+      )
+    : createVertexArray(
+        gl,
+        [
+          [ATTRIBUTE_LOCATIONS.position, shared.position, 3, 0, 0, 0],
+          [ATTRIBUTE_LOCATIONS.normal, shared.normal, 3, 0, 0, 0],
+          ...instanceAttributes,
+        ],
+        shared.index
+      );
+};
+
+// Builds the vertex arrays of a layer, replacing any it had
+const withVertexArrays = (
+  gl: WebGL2RenderingContext,
+  layer: LayerBuffers,
+  shared: GeometryBuffers,
+  impostors: boolean
+): LayerBuffers => {
+  [layer.vertexArray, layer.bondVertexArray].forEach((vertexArray) => {
+    if (vertexArray) gl.deleteVertexArray(vertexArray);
+  });
+
+  const vertexArray = layer.instance
+    ? createSphereVertexArray(gl, shared, layer.instance, impostors)
+    : layer.meshPosition
+    ? createVertexArray(
+        gl,
+        [
+          [ATTRIBUTE_LOCATIONS.position, layer.meshPosition, 3, 0, 0, 0],
+          [ATTRIBUTE_LOCATIONS.normal, layer.meshNormal, 3, 0, 0, 0],
+          [ATTRIBUTE_LOCATIONS.color, layer.meshColor, 3, 0, 0, 0],
+        ],
+        layer.meshIndex
+      )
+    : null;
+
+  // Half-bond instances: start, end, colour, radius
+  const bond = layer.bondInstance;
+  const bondVertexArray = bond
+    ? createVertexArray(
+        gl,
+        [
+          [ATTRIBUTE_LOCATIONS.position, shared.cylinderPosition, 3, 0, 0, 0],
+          [ATTRIBUTE_LOCATIONS.normal, shared.cylinderNormal, 3, 0, 0, 0],
+          [ATTRIBUTE_LOCATIONS.instancePosition, bond, 3, 40, 0, 1],
+          [ATTRIBUTE_LOCATIONS.instanceEnd, bond, 3, 40, 12, 1],
+          [ATTRIBUTE_LOCATIONS.instanceColor, bond, 3, 40, 24, 1],
+          [ATTRIBUTE_LOCATIONS.instanceRadius, bond, 1, 40, 36, 1],
+        ],
+        shared.cylinderIndex
+      )
+    : null;
+
+  return { ...layer, vertexArray, bondVertexArray };
+};
+
+const uploadBuffer = (
+  gl: WebGLRenderingContext,
+  target: number,
+  data: Float32Array | Uint16Array | Uint32Array | null
+): WebGLBuffer | null => {
+  if (!data) return null;
+
+  const buffer = gl.createBuffer();
+  if (!buffer) throw new Error("Failed to create representation buffer");
+  gl.bindBuffer(target, buffer);
+  gl.bufferData(target, data, gl.STATIC_DRAW);
+  return buffer;
+};
+
+// Middle of the bounding box of the atoms or mesh of a representation
+const layerCenter = (data: RepresentationData): [number, number, number] => {
+  const [points, stride] = data.instanceData
+    ? [data.instanceData, 7]
+    : data.mesh
+    ? [data.mesh.positions, 3]
+    : data.bondData
+    ? [data.bondData, 10]
+    : [null, 0];
+  if (!points || points.length === 0) return [0, 0, 0];
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < points.length; i += stride) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], points[i + axis]);
+      max[axis] = Math.max(max[axis], points[i + axis]);
+    }
+  }
+  return [0, 1, 2].map((axis) => (min[axis] + max[axis]) / 2) as [
+    number,
+    number,
+    number
+  ];
+};
+
+const createLayerBuffers = (
+  gl: WebGLRenderingContext,
+  extensions: WebGLExtensions,
+  data: RepresentationData
+): LayerBuffers => {
+  const { mesh } = data;
+  // Without OES_element_index_uint, 32-bit indices are drawn in chunks
+  const indexed = !mesh?.indices
+    ? null
+    : extensions.elementIndexUint || asWebGL2(gl)
+    ? {
+        indices: mesh.indices,
+        chunks: [{ baseVertex: 0, offset: 0, count: mesh.indices.length }],
+      }
+    : splitIndices(mesh.indices);
+  return {
+    type: data.type,
+    instance: uploadBuffer(gl, gl.ARRAY_BUFFER, data.instanceData),
+    instanceCount: data.instanceData ? data.instanceData.length / 7 : 0,
+    bondInstance: uploadBuffer(gl, gl.ARRAY_BUFFER, data.bondData),
+    bondInstanceCount: data.bondData ? data.bondData.length / 10 : 0,
+    meshPosition: uploadBuffer(gl, gl.ARRAY_BUFFER, mesh?.positions ?? null),
+    meshNormal: uploadBuffer(gl, gl.ARRAY_BUFFER, mesh?.normals ?? null),
+    meshColor: uploadBuffer(gl, gl.ARRAY_BUFFER, mesh?.colors ?? null),
+    meshIndex: uploadBuffer(
+      gl,
+      gl.ELEMENT_ARRAY_BUFFER,
+      indexed?.indices ?? null
+    ),
+    meshIndexType:
+      indexed?.indices instanceof Uint32Array
+        ? gl.UNSIGNED_INT
+        : gl.UNSIGNED_SHORT,
+    meshChunks: indexed?.chunks ?? [],
+    meshCount: mesh ? mesh.positions.length / 3 : 0,
+    center: layerCenter(data),
+    opacity: data.opacity,
+    positions: null,
+    vertexArray: null,
+    bondVertexArray: null,
+  };
+};
+
+// A recoloured copy of a representation shares its atom maps with the
+// original (see applyAtomColors), so they identify the geometry
+const geometryOf = (data: RepresentationData) =>
+  data.instanceAtoms ?? data.mesh?.atomIndices ?? null;
+
+// Writes new colours into the buffers of the same geometry: the interleaved
+// instance buffers, or just the colour buffer of a mesh. Arrays shared with
+// the previous data (a new opacity only) are not uploaded again.
+const repaintLayerBuffers = (
+  gl: WebGLRenderingContext,
+  layer: LayerBuffers,
+  previous: RepresentationData,
+  data: RepresentationData
+): LayerBuffers => {
+  const uploads: [
+    WebGLBuffer | null,
+    Float32Array | null | undefined,
+    Float32Array | null | undefined
+  ][] = [
+    [layer.instance, previous.instanceData, data.instanceData],
+    [layer.bondInstance, previous.bondData, data.bondData],
+    [layer.meshColor, previous.mesh?.colors, data.mesh?.colors],
+  ];
+  let repainted = false;
+  uploads.forEach(([buffer, old, array]) => {
+    if (!buffer || !array || array === old) return;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, array, gl.STATIC_DRAW);
+    repainted = true;
+  });
+  // Repainted instances are back where the representation was built
+  return {
+    ...layer,
+    opacity: data.opacity,
+    positions: repainted ? null : layer.positions,
+  };
+};
+
+const deleteLayerBuffers = (gl: WebGLRenderingContext, layer: LayerBuffers) => {
+  [
+    layer.instance,
+    layer.bondInstance,
+    layer.meshPosition,
+    layer.meshNormal,
+    layer.meshColor,
+    layer.meshIndex,
+  ].forEach((buffer) => {
+    if (buffer) gl.deleteBuffer(buffer);
+  });
+  [layer.vertexArray, layer.bondVertexArray].forEach((vertexArray) => {
+    if (vertexArray) asWebGL2(gl)?.deleteVertexArray(vertexArray);
+  });
+};
+
 export const useGeometry = (
   gl: WebGLRenderingContext | null,
   program: WebGLProgram | null,
   extensions: WebGLExtensions,
-  viewMode: ViewMode
+  impostors: boolean, // Whether spheres are drawn as impostors
+  representations: RepresentationData[],
+  detail: DetailLevel
 ) => {
   const buffers = useRef<GeometryBuffers>({
     // Sphere buffers
     position: null,
     normal: null,
     index: null,
-    instance: null,
     numIndices: 0,
     numVertices: 0,
 
-    // Ribbon buffers
-    ribbonPosition: null,
-    ribbonNormal: null,
-    ribbonIndex: null,
-    ribbonColor: null,
-    ribbonNumIndices: 0,
+    // Impostor quad buffers
+    quadCorner: null,
+    quadIndex: null,
+
+    // Bond cylinder buffers
+    cylinderPosition: null,
+    cylinderNormal: null,
+    cylinderIndex: null,
+    cylinderNumIndices: 0,
+
+    // Overlay buffers
+    overlayInstance: null,
+    overlayVertexArray: null,
   });
 
-  // Initialize sphere geometry
+  // Uploaded representations, keyed by their data so unchanged layers are
+  // not uploaded again
+  const layerCache = useRef(new Map<RepresentationData, LayerBuffers>());
+  const [layers, setLayers] = useState<LayerBuffers[]>([]);
+
+  // Initialize sphere geometry, tessellated for the level of detail
+  const { sphereSegments, cylinderSegments } = detail;
   useEffect(() => {
     if (!gl || !program) {
       console.log("WebGL context or program not ready");
       return;
     }
 
-    console.log("Initializing sphere geometry buffers");
+    console.log("Initializing sphere geometry buffers", { sphereSegments });
 
+    // Deleted by the cleanup, once newer buffers may have replaced them
+    const sphereBuffers: WebGLBuffer[] = [];
     try {
       // Create sphere geometry
-      const sphere = createSphereGeometry(1.0, 32);
+      const sphere = createSphereGeometry(1.0, sphereSegments);
 
       // Create buffers
       const position = gl.createBuffer();
       const normal = gl.createBuffer();
       const index = gl.createBuffer();
-      const instance = gl.createBuffer();
 
-      if (!position || !normal || !index || !instance) {
+      if (!position || !normal || !index) {
         throw new Error("Failed to create sphere buffers");
       }
+      sphereBuffers.push(position, normal, index);
 
       // Upload sphere geometry data
       gl.bindBuffer(gl.ARRAY_BUFFER, position);
@@ -78,20 +384,14 @@ export const useGeometry = (
       gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, index);
       gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, sphere.indices, gl.STATIC_DRAW);
 
-      // Initialize instance buffer
-      gl.bindBuffer(gl.ARRAY_BUFFER, instance);
-      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(0), gl.DYNAMIC_DRAW);
-
-      // Update sphere buffers
-      buffers.current = {
-        ...buffers.current,
+      // Update sphere buffers in place: the renderer holds this object
+      Object.assign(buffers.current, {
         position,
         normal,
         index,
-        instance,
         numIndices: sphere.indices.length,
         numVertices: sphere.positions.length / 3,
-      };
+      });
 
       console.log("Sphere buffers initialized successfully");
     } catch (error) {
@@ -102,128 +402,267 @@ export const useGeometry = (
       if (!gl) return;
 
       // Only cleanup sphere buffers
-      const sphereBuffers = [
-        buffers.current.position,
-        buffers.current.normal,
-        buffers.current.index,
-        buffers.current.instance,
-      ];
-
-      sphereBuffers.forEach((buffer) => {
-        if (buffer) gl.deleteBuffer(buffer);
-      });
+      sphereBuffers.forEach((buffer) => gl.deleteBuffer(buffer));
     };
-  }, [gl, program]);
+  }, [gl, program, sphereSegments]);
 
-  // Initialize ribbon geometry (only when in ribbon mode)
+  // Initialize the impostor quad and the overlay instance buffer
   useEffect(() => {
-    if (!gl || !program || viewMode !== ViewMode.RIBBON) return;
-
-    console.log("Initializing ribbon geometry buffers");
+    if (!gl || !program) return;
 
+    const quadBuffers: WebGLBuffer[] = [];
     try {
-      // Create buffers for ribbon mode
-      const ribbonPosition = gl.createBuffer();
-      const ribbonNormal = gl.createBuffer();
-      const ribbonIndex = gl.createBuffer();
-      const ribbonColor = gl.createBuffer();
-
-      if (!ribbonPosition || !ribbonNormal || !ribbonIndex || !ribbonColor) {
-        throw new Error("Failed to create ribbon buffers");
+      const overlayInstance = gl.createBuffer();
+      const quadCorner = gl.createBuffer();
+      const quadIndex = gl.createBuffer();
+
+      if (!overlayInstance || !quadCorner || !quadIndex) {
+        throw new Error("Failed to create impostor and overlay buffers");
       }
+      quadBuffers.push(overlayInstance, quadCorner, quadIndex);
+
+      // Impostor quad, counter-clockwise when facing the camera
+      gl.bindBuffer(gl.ARRAY_BUFFER, quadCorner);
+      gl.bufferData(
+        gl.ARRAY_BUFFER,
+        new Float32Array([-1, -1, 1, -1, 1, 1, -1, 1]),
+        gl.STATIC_DRAW
+      );
+
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, quadIndex);
+      gl.bufferData(
+        gl.ELEMENT_ARRAY_BUFFER,
+        new Uint16Array([0, 1, 2, 0, 2, 3]),
+        gl.STATIC_DRAW
+      );
 
-      buffers.current = {
-        ...buffers.current,
-        ribbonPosition,
-        ribbonNormal,
-        ribbonIndex,
-        ribbonColor,
-        ribbonNumIndices: 0, // Will be updated when data is loaded
-      };
+      // Initialize overlay instance buffer
+      gl.bindBuffer(gl.ARRAY_BUFFER, overlayInstance);
+      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(0), gl.DYNAMIC_DRAW);
 
-      console.log("Ribbon buffers initialized successfully");
+      Object.assign(buffers.current, {
+        overlayInstance,
+        quadCorner,
+        quadIndex,
+      });
     } catch (error) {
-      console.error("Error initializing ribbon buffers:", error);
+      console.error("Error initializing impostor and overlay buffers:", error);
     }
 
     return () => {
       if (!gl) return;
 
-      // Only cleanup ribbon buffers
-      const ribbonBuffers = [
-        buffers.current.ribbonPosition,
-        buffers.current.ribbonNormal,
-        buffers.current.ribbonIndex,
-        buffers.current.ribbonColor,
-      ];
-
-      ribbonBuffers.forEach((buffer) => {
-        if (buffer) gl.deleteBuffer(buffer);
-      });
+      quadBuffers.forEach((buffer) => gl.deleteBuffer(buffer));
     };
-  }, [gl, program, viewMode]);
+  }, [gl, program]);
 
-  // Update instance data (for sphere mode)
-  const updateInstanceData = (data: Float32Array) => {
-    if (!gl || !buffers.current.instance) {
-      console.error(
-        "Cannot update instance data: WebGL or buffer not initialized"
-      );
-      return;
-    }
+  // WebGL2: vertex array of the overlay spheres, over the quad or the
+  // sphere mesh created above
+  useEffect(() => {
+    const gl2 = gl && asWebGL2(gl);
+    if (!gl2 || !program) return;
 
+    let overlayVertexArray: WebGLVertexArrayObject | null = null;
     try {
-      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.current.instance);
-      gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
-      console.log("Instance data updated", {
-        dataLength: data.length,
-        numInstances: data.length / 7,
-      });
+      overlayVertexArray = createSphereVertexArray(
+        gl2,
+        buffers.current,
+        buffers.current.overlayInstance,
+        impostors
+      );
+      buffers.current.overlayVertexArray = overlayVertexArray;
     } catch (error) {
-      console.error("Error updating instance data:", error);
+      console.error("Error creating overlay vertex array:", error);
     }
-  };
 
-  // Update ribbon data (for ribbon mode)
-  const updateRibbonData = (backboneAtoms: any[]) => {
-    if (
-      !gl ||
-      !buffers.current.ribbonPosition ||
-      viewMode !== ViewMode.RIBBON
-    ) {
-      return;
-    }
+    return () => {
+      if (overlayVertexArray) gl2.deleteVertexArray(overlayVertexArray);
+    };
+  }, [gl, program, impostors, sphereSegments]);
 
+  // Initialize bond cylinder geometry
+  useEffect(() => {
+    if (!gl || !program) return;
+
+    console.log("Initializing bond cylinder buffers", { cylinderSegments });
+
+    const cylinderBuffers: WebGLBuffer[] = [];
     try {
-      const ribbonGeometry = createRibbonGeometry(backboneAtoms);
+      const cylinder = createCylinderGeometry(cylinderSegments);
+
+      const cylinderPosition = gl.createBuffer();
+      const cylinderNormal = gl.createBuffer();
+      const cylinderIndex = gl.createBuffer();
 
-      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.current.ribbonPosition);
-      gl.bufferData(gl.ARRAY_BUFFER, ribbonGeometry.positions, gl.STATIC_DRAW);
+      if (!cylinderPosition || !cylinderNormal || !cylinderIndex) {
+        throw new Error("Failed to create bond cylinder buffers");
+      }
+      cylinderBuffers.push(cylinderPosition, cylinderNormal, cylinderIndex);
 
-      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.current.ribbonNormal);
-      gl.bufferData(gl.ARRAY_BUFFER, ribbonGeometry.normals, gl.STATIC_DRAW);
+      gl.bindBuffer(gl.ARRAY_BUFFER, cylinderPosition);
+      gl.bufferData(gl.ARRAY_BUFFER, cylinder.positions, gl.STATIC_DRAW);
 
-      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.current.ribbonColor);
-      gl.bufferData(gl.ARRAY_BUFFER, ribbonGeometry.colors, gl.STATIC_DRAW);
+      gl.bindBuffer(gl.ARRAY_BUFFER, cylinderNormal);
+      gl.bufferData(gl.ARRAY_BUFFER, cylinder.normals, gl.STATIC_DRAW);
 
-      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, buffers.current.ribbonIndex);
-      gl.bufferData(
-        gl.ELEMENT_ARRAY_BUFFER,
-        ribbonGeometry.indices,
-        gl.STATIC_DRAW
-      );
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, cylinderIndex);
+      gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, cylinder.indices, gl.STATIC_DRAW);
 
-      buffers.current.ribbonNumIndices = ribbonGeometry.indices.length;
+      Object.assign(buffers.current, {
+        cylinderPosition,
+        cylinderNormal,
+        cylinderIndex,
+        cylinderNumIndices: cylinder.indices.length,
+      });
 
-      console.log("Ribbon geometry updated successfully");
+      console.log("Bond cylinder buffers initialized successfully");
     } catch (error) {
-      console.error("Error updating ribbon geometry:", error);
+      console.error("Error initializing bond cylinder buffers:", error);
     }
-  };
+
+    return () => {
+      if (!gl) return;
+
+      cylinderBuffers.forEach((buffer) => gl.deleteBuffer(buffer));
+    };
+  }, [gl, program, cylinderSegments]);
+
+  // Upload new representations and release the buffers of removed ones.
+  // A representation that only changed colour or opacity keeps its buffers.
+  // On WebGL2 the vertex arrays are rebuilt as well, since they also refer
+  // to the shared quad, sphere and bond meshes.
+  useEffect(() => {
+    if (!gl || !program) return;
+
+    const cache = layerCache.current;
+    try {
+      const current = new Set(representations);
+      const removed = new Map<
+        unknown,
+        { layer: LayerBuffers; data: RepresentationData }
+      >();
+      cache.forEach((layer, data) => {
+        if (current.has(data)) return;
+        removed.set(geometryOf(data) ?? data, { layer, data });
+        cache.delete(data);
+      });
+
+      representations.forEach((data) => {
+        if (cache.has(data)) return;
+        const geometry = geometryOf(data);
+        const previous = geometry && removed.get(geometry);
+        if (previous) {
+          removed.delete(geometry);
+          cache.set(
+            data,
+            repaintLayerBuffers(gl, previous.layer, previous.data, data)
+          );
+        } else {
+          cache.set(data, createLayerBuffers(gl, extensions, data));
+        }
+      });
+      removed.forEach(({ layer }) => deleteLayerBuffers(gl, layer));
+
+      const gl2 = asWebGL2(gl);
+      if (gl2) {
+        cache.forEach((layer, data) =>
+          cache.set(
+            data,
+            withVertexArrays(gl2, layer, buffers.current, impostors)
+          )
+        );
+      }
+
+      setLayers(representations.map((data) => cache.get(data)!));
+      console.log("Representation buffers updated", {
+        numLayers: representations.length,
+      });
+    } catch (error) {
+      console.error("Error updating representation buffers:", error);
+    }
+  }, [
+    gl,
+    program,
+    extensions,
+    impostors,
+    representations,
+    sphereSegments,
+    cylinderSegments,
+  ]);
+
+  // Release every representation when the context goes away
+  useEffect(() => {
+    if (!gl) return;
+
+    const cache = layerCache.current;
+    return () => {
+      cache.forEach((layer) => deleteLayerBuffers(gl, layer));
+      cache.clear();
+    };
+  }, [gl]);
+
+  // Update the sphere instances of the overlaid models
+  const updateOverlayData = useCallback(
+    (data: Float32Array) => {
+      if (!gl || !buffers.current.overlayInstance) {
+        console.error(
+          "Cannot update overlay data: WebGL or buffer not initialized"
+        );
+        return;
+      }
+
+      try {
+        gl.bindBuffer(gl.ARRAY_BUFFER, buffers.current.overlayInstance);
+        gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
+        console.log("Overlay data updated", {
+          numInstances: data.length / 7,
+        });
+      } catch (error) {
+        console.error("Error updating overlay data:", error);
+      }
+    },
+    [gl]
+  );
+
+  // Move the sphere and bond instances of every uploaded representation to
+  // the positions of another frame with the same topology (3 floats per
+  // drawn atom), or back to where they were built with null. Only their
+  // instance buffers are rewritten; the geometry is not rebuilt.
+  const updateInstanceData = useCallback(
+    (positions: Float32Array | null) => {
+      if (!gl) {
+        console.error("Cannot update instance data: WebGL not initialized");
+        return;
+      }
+
+      try {
+        layerCache.current.forEach((layer, data) => {
+          if (layer.positions === positions) return;
+          const moved = positions
+            ? moveRepresentationInstances(data, positions)
+            : data;
+          const uploads: [WebGLBuffer | null, Float32Array | null][] = [
+            [layer.instance, moved.instanceData],
+            [layer.bondInstance, moved.bondData],
+          ];
+          uploads.forEach(([buffer, array]) => {
+            if (!buffer || !array) return;
+            gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+            gl.bufferSubData(gl.ARRAY_BUFFER, 0, array);
+          });
+          layer.positions = positions;
+        });
+      } catch (error) {
+        console.error("Error updating instance data:", error);
+      }
+    },
+    [gl]
+  );
 
   return {
     buffers: buffers.current,
+    layers,
     updateInstanceData,
-    updateRibbonData,
+    updateOverlayData,
   };
 };
@@ -0,0 +1,52 @@
+// src/components/viewer/hooks/useLevelOfDetail.ts
+
+import { useCallback, useState } from "react";
+import { DETAIL_LEVELS, detailForAtomCount } from "../utils/levelOfDetail";
+
+// Average frame time above which the scene counts as slow (under 20 fps)
+const SLOW_FRAME_TIME = 50; // ms
+// Slow reports in a row before stepping down, so a one-off stall such as
+// building a surface is not taken for a slow scene
+const SLOW_REPORTS = 2;
+
+interface DetailState {
+  atomCount: number;
+  level: number; // Index into DETAIL_LEVELS
+  slowReports: number;
+}
+
+const initialState = (atomCount: number): DetailState => ({
+  atomCount,
+  level: detailForAtomCount(atomCount),
+  slowReports: 0,
+});
+
+// Tessellation for a model of atomCount atoms. It starts at the finest
+// level the atom count allows and steps down while the frame times passed
+// to reportFrameTime stay slow. It does not step back up for the same
+// model: the finer level was already too slow.
+export function useLevelOfDetail(atomCount: number) {
+  const [state, setState] = useState(() => initialState(atomCount));
+  const current =
+    state.atomCount === atomCount ? state : initialState(atomCount);
+
+  const reportFrameTime = useCallback(
+    (frameTime: number) => {
+      setState((previous) => {
+        const state =
+          previous.atomCount === atomCount ? previous : initialState(atomCount);
+        if (frameTime <= SLOW_FRAME_TIME) {
+          return state.slowReports === 0 ? state : { ...state, slowReports: 0 };
+        }
+        if (state.level === 0) return state;
+        if (state.slowReports + 1 < SLOW_REPORTS) {
+          return { ...state, slowReports: state.slowReports + 1 };
+        }
+        return { ...state, level: state.level - 1, slowReports: 0 };
+      });
+    },
+    [atomCount]
+  );
+
+  return { detail: DETAIL_LEVELS[current.level], reportFrameTime };
+}
@@ -0,0 +1,512 @@
+// src/components/viewer/hooks/usePostProcessing.ts
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Matrix4 } from "../utils/matrix";
+import {
+  AMBIENT_OCCLUSION_SAMPLES,
+  ambientOcclusionFragmentShaderSource,
+  ATTRIBUTE_LOCATIONS,
+  occlusionCompositeFragmentShaderSource,
+  outlineFragmentShaderSource,
+  screenVertexShaderSource,
+} from "../utils/shaders";
+import { WebGLExtensions } from "../types";
+import { asWebGL2, createProgramFromSources } from "./useWebGL";
+
+export interface AmbientOcclusionOptions {
+  enabled: boolean;
+  strength: number; // 0 leaves the scene unchanged
+  radius: number; // Å around each point searched for occluders
+}
+
+export const DEFAULT_AMBIENT_OCCLUSION_OPTIONS: AmbientOcclusionOptions = {
+  enabled: false,
+  strength: 1.0,
+  radius: 4.0,
+};
+
+// Silhouette and crease lines, for an illustrative look
+export interface OutlineOptions {
+  enabled: boolean;
+  width: number; // Pixels
+  color: [number, number, number];
+}
+
+export const DEFAULT_OUTLINE_OPTIONS: OutlineOptions = {
+  enabled: false,
+  width: 2,
+  color: [0, 0, 0],
+};
+
+// Draws the opaque scene into the normal pass, see applyPostProcessing
+export type PostProcessingPass = (
+  drawNormals: () => void,
+  projection: Matrix4
+) => void;
+
+interface PostProcessingResources {
+  occlusionProgram: WebGLProgram;
+  occlusionUniforms: Record<
+    | "depthTexture"
+    | "normalTexture"
+    | "projection"
+    | "inverseProjection"
+    | "kernel"
+    | "radius"
+    | "strength",
+    WebGLUniformLocation | null
+  >;
+  compositeProgram: WebGLProgram;
+  compositeUniforms: Record<
+    "occlusionTexture" | "texelSize",
+    WebGLUniformLocation | null
+  >;
+  outlineProgram: WebGLProgram;
+  outlineUniforms: Record<
+    | "depthTexture"
+    | "normalTexture"
+    | "inverseProjection"
+    | "texelSize"
+    | "width"
+    | "color",
+    WebGLUniformLocation | null
+  >;
+  kernel: Float32Array;
+
+  // Full-screen triangle
+  triangle: WebGLBuffer;
+  triangleVertexArray: WebGLVertexArrayObject | null; // WebGL2 only
+
+  // Render targets, resized with the canvas
+  width: number;
+  height: number;
+  normalTexture: WebGLTexture;
+  depthTexture: WebGLTexture;
+  occlusionTexture: WebGLTexture;
+  normalFramebuffer: WebGLFramebuffer;
+  occlusionFramebuffer: WebGLFramebuffer;
+}
+
+// Random points in the unit hemisphere around +z, crowded towards the
+// centre so that nearby geometry weighs more
+const createKernel = (): Float32Array => {
+  const kernel = new Float32Array(AMBIENT_OCCLUSION_SAMPLES * 3);
+  for (let i = 0; i < AMBIENT_OCCLUSION_SAMPLES; i++) {
+    let point: number[];
+    do {
+      point = [Math.random() * 2 - 1, Math.random() * 2 - 1, Math.random()];
+    } while (Math.hypot(...point) > 1 || Math.hypot(...point) < 0.01);
+
+    const t = i / AMBIENT_OCCLUSION_SAMPLES;
+    const scale = 0.1 + 0.9 * t * t;
+    kernel.set(
+      point.map((v) => v * scale),
+      i * 3
+    );
+  }
+  return kernel;
+};
+
+const createTexture = (gl: WebGLRenderingContext): WebGLTexture => {
+  const texture = gl.createTexture();
+  if (!texture) throw new Error("Failed to create post-processing texture");
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+type RenderTargets = Pick<
+  PostProcessingResources,
+  "width" | "height" | "normalTexture" | "depthTexture" | "occlusionTexture"
+>;
+
+// Allocates the render targets at the canvas size; the framebuffers keep
+// their attachments
+const sizeTargets = (
+  gl: WebGLRenderingContext,
+  target: RenderTargets,
+  width: number,
+  height: number
+) => {
+  [target.normalTexture, target.occlusionTexture].forEach((texture) => {
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      width,
+      height,
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      null
+    );
+  });
+
+  const gl2 = asWebGL2(gl);
+  gl.bindTexture(gl.TEXTURE_2D, target.depthTexture);
+  gl.texImage2D(
+    gl.TEXTURE_2D,
+    0,
+    gl2 ? gl2.DEPTH_COMPONENT24 : gl.DEPTH_COMPONENT,
+    width,
+    height,
+    0,
+    gl.DEPTH_COMPONENT,
+    gl.UNSIGNED_INT,
+    null
+  );
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  target.width = width;
+  target.height = height;
+};
+
+const createFramebuffer = (
+  gl: WebGLRenderingContext,
+  color: WebGLTexture,
+  depth: WebGLTexture | null
+): WebGLFramebuffer => {
+  const framebuffer = gl.createFramebuffer();
+  if (!framebuffer) {
+    throw new Error("Failed to create post-processing framebuffer");
+  }
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(
+    gl.FRAMEBUFFER,
+    gl.COLOR_ATTACHMENT0,
+    gl.TEXTURE_2D,
+    color,
+    0
+  );
+  if (depth) {
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER,
+      gl.DEPTH_ATTACHMENT,
+      gl.TEXTURE_2D,
+      depth,
+      0
+    );
+  }
+  const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+  if (status !== gl.FRAMEBUFFER_COMPLETE) {
+    gl.deleteFramebuffer(framebuffer);
+    throw new Error(`Post-processing framebuffer incomplete: ${status}`);
+  }
+  return framebuffer;
+};
+
+const createResources = (
+  gl: WebGLRenderingContext
+): PostProcessingResources => {
+  const occlusionProgram = createProgramFromSources(
+    gl,
+    screenVertexShaderSource,
+    ambientOcclusionFragmentShaderSource
+  );
+  const compositeProgram = createProgramFromSources(
+    gl,
+    screenVertexShaderSource,
+    occlusionCompositeFragmentShaderSource
+  );
+  const outlineProgram = createProgramFromSources(
+    gl,
+    screenVertexShaderSource,
+    outlineFragmentShaderSource
+  );
+  if (!occlusionProgram || !compositeProgram || !outlineProgram) {
+    throw new Error("Failed to create post-processing programs");
+  }
+  const uniform = (program: WebGLProgram, name: string) =>
+    gl.getUniformLocation(program, name);
+
+  const triangle = gl.createBuffer();
+  if (!triangle) throw new Error("Failed to create full-screen triangle");
+  gl.bindBuffer(gl.ARRAY_BUFFER, triangle);
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([-1, -1, 3, -1, -1, 3]),
+    gl.STATIC_DRAW
+  );
+
+  const gl2 = asWebGL2(gl);
+  let triangleVertexArray: WebGLVertexArrayObject | null = null;
+  if (gl2) {
+    triangleVertexArray = gl2.createVertexArray();
+    gl2.bindVertexArray(triangleVertexArray);
+    gl2.enableVertexAttribArray(ATTRIBUTE_LOCATIONS.corner);
+    gl2.vertexAttribPointer(
+      ATTRIBUTE_LOCATIONS.corner,
+      2,
+      gl2.FLOAT,
+      false,
+      0,
+      0
+    );
+    gl2.bindVertexArray(null);
+  }
+
+  // Framebuffers are complete only once their textures have storage
+  const targets: RenderTargets = {
+    width: 0,
+    height: 0,
+    normalTexture: createTexture(gl),
+    depthTexture: createTexture(gl),
+    occlusionTexture: createTexture(gl),
+  };
+  sizeTargets(gl, targets, 1, 1);
+  const normalFramebuffer = createFramebuffer(
+    gl,
+    targets.normalTexture,
+    targets.depthTexture
+  );
+  const occlusionFramebuffer = createFramebuffer(
+    gl,
+    targets.occlusionTexture,
+    null
+  );
+
+  return {
+    occlusionProgram,
+    occlusionUniforms: {
+      depthTexture: uniform(occlusionProgram, "depthTexture"),
+      normalTexture: uniform(occlusionProgram, "normalTexture"),
+      projection: uniform(occlusionProgram, "projection"),
+      inverseProjection: uniform(occlusionProgram, "inverseProjection"),
+      kernel: uniform(occlusionProgram, "kernel"),
+      radius: uniform(occlusionProgram, "radius"),
+      strength: uniform(occlusionProgram, "strength"),
+    },
+    compositeProgram,
+    compositeUniforms: {
+      occlusionTexture: uniform(compositeProgram, "occlusionTexture"),
+      texelSize: uniform(compositeProgram, "texelSize"),
+    },
+    outlineProgram,
+    outlineUniforms: {
+      depthTexture: uniform(outlineProgram, "depthTexture"),
+      normalTexture: uniform(outlineProgram, "normalTexture"),
+      inverseProjection: uniform(outlineProgram, "inverseProjection"),
+      texelSize: uniform(outlineProgram, "texelSize"),
+      width: uniform(outlineProgram, "width"),
+      color: uniform(outlineProgram, "color"),
+    },
+    kernel: createKernel(),
+    triangle,
+    triangleVertexArray,
+    ...targets,
+    normalFramebuffer,
+    occlusionFramebuffer,
+  };
+};
+
+const deleteResources = (
+  gl: WebGLRenderingContext,
+  target: PostProcessingResources
+) => {
+  gl.deleteProgram(target.occlusionProgram);
+  gl.deleteProgram(target.compositeProgram);
+  gl.deleteProgram(target.outlineProgram);
+  gl.deleteBuffer(target.triangle);
+  if (target.triangleVertexArray) {
+    asWebGL2(gl)?.deleteVertexArray(target.triangleVertexArray);
+  }
+  [target.normalTexture, target.depthTexture, target.occlusionTexture].forEach(
+    (texture) => gl.deleteTexture(texture)
+  );
+  gl.deleteFramebuffer(target.normalFramebuffer);
+  gl.deleteFramebuffer(target.occlusionFramebuffer);
+};
+
+// Screen-space effects, applied after the opaque scene is drawn: the scene
+// is drawn again as normals and depth, from which ambient occlusion darkens
+// the canvas by its blurred estimate and outlines are drawn where depth or
+// normals change sharply. Returns null for the pass while both effects are
+// off or unsupported (WebGL1 without WEBGL_depth_texture).
+export const usePostProcessing = (
+  gl: WebGLRenderingContext | null,
+  extensions: WebGLExtensions,
+  ambientOcclusion: AmbientOcclusionOptions,
+  outline: OutlineOptions
+) => {
+  const resources = useRef<PostProcessingResources | null>(null);
+  const [isSupported, setIsSupported] = useState(false);
+
+  useEffect(() => {
+    if (!gl) return;
+    if (!asWebGL2(gl) && !extensions.depthTexture) {
+      console.warn("Post-processing unavailable without depth textures");
+      return;
+    }
+
+    let created: PostProcessingResources | null = null;
+    try {
+      created = createResources(gl);
+      resources.current = created;
+      setIsSupported(true);
+      console.log("Post-processing initialized successfully");
+    } catch (error) {
+      console.error("Error initializing post-processing:", error);
+    }
+
+    return () => {
+      if (created) deleteResources(gl, created);
+      resources.current = null;
+      setIsSupported(false);
+    };
+  }, [gl, extensions]);
+
+  const drawTriangle = useCallback(
+    (target: PostProcessingResources) => {
+      if (!gl) return;
+
+      const gl2 = asWebGL2(gl);
+      if (gl2) {
+        gl2.bindVertexArray(target.triangleVertexArray);
+        gl2.drawArrays(gl2.TRIANGLES, 0, 3);
+        gl2.bindVertexArray(null);
+        return;
+      }
+
+      // The scene's attribute arrays would be range-checked against these
+      // three vertices, so everything else is switched off first
+      const count: number = gl.getParameter(gl.MAX_VERTEX_ATTRIBS);
+      for (let location = 0; location < count; location++) {
+        gl.disableVertexAttribArray(location);
+        extensions.instancedArrays?.vertexAttribDivisorANGLE(location, 0);
+      }
+      gl.bindBuffer(gl.ARRAY_BUFFER, target.triangle);
+      gl.enableVertexAttribArray(ATTRIBUTE_LOCATIONS.corner);
+      gl.vertexAttribPointer(
+        ATTRIBUTE_LOCATIONS.corner,
+        2,
+        gl.FLOAT,
+        false,
+        0,
+        0
+      );
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+      gl.disableVertexAttribArray(ATTRIBUTE_LOCATIONS.corner);
+    },
+    [gl, extensions]
+  );
+
+  const { strength, radius } = ambientOcclusion;
+  const { width: outlineWidth, color: outlineColor } = outline;
+  const applyPostProcessing: PostProcessingPass = useCallback(
+    (drawNormals, projection) => {
+      const target = resources.current;
+      if (!gl || !target) return;
+
+      try {
+        const { width, height } = gl.canvas;
+        if (width !== target.width || height !== target.height) {
+          sizeTargets(gl, target, width, height);
+        }
+        const inverseProjection = projection.clone().invert().array;
+
+        // Normals and depth of the opaque scene
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target.normalFramebuffer);
+        gl.clearColor(0.5, 0.5, 1.0, 1.0);
+        gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+        drawNormals();
+        gl.disable(gl.DEPTH_TEST);
+
+        if (ambientOcclusion.enabled) {
+          // Occlusion of every pixel
+          gl.bindFramebuffer(gl.FRAMEBUFFER, target.occlusionFramebuffer);
+          gl.useProgram(target.occlusionProgram);
+          const uniforms = target.occlusionUniforms;
+          gl.activeTexture(gl.TEXTURE0);
+          gl.bindTexture(gl.TEXTURE_2D, target.depthTexture);
+          gl.uniform1i(uniforms.depthTexture, 0);
+          gl.activeTexture(gl.TEXTURE1);
+          gl.bindTexture(gl.TEXTURE_2D, target.normalTexture);
+          gl.uniform1i(uniforms.normalTexture, 1);
+          gl.uniformMatrix4fv(uniforms.projection, false, projection.array);
+          gl.uniformMatrix4fv(
+            uniforms.inverseProjection,
+            false,
+            inverseProjection
+          );
+          gl.uniform3fv(uniforms.kernel, target.kernel);
+          gl.uniform1f(uniforms.radius, radius);
+          gl.uniform1f(uniforms.strength, strength);
+          drawTriangle(target);
+
+          // Blurred and multiplied into the canvas
+          gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+          gl.useProgram(target.compositeProgram);
+          gl.activeTexture(gl.TEXTURE0);
+          gl.bindTexture(gl.TEXTURE_2D, target.occlusionTexture);
+          gl.uniform1i(target.compositeUniforms.occlusionTexture, 0);
+          gl.uniform2f(
+            target.compositeUniforms.texelSize,
+            1 / width,
+            1 / height
+          );
+          gl.enable(gl.BLEND);
+          gl.blendFunc(gl.DST_COLOR, gl.ZERO);
+          drawTriangle(target);
+        }
+
+        if (outline.enabled) {
+          // Lines blended over the canvas
+          gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+          gl.useProgram(target.outlineProgram);
+          const uniforms = target.outlineUniforms;
+          gl.activeTexture(gl.TEXTURE0);
+          gl.bindTexture(gl.TEXTURE_2D, target.depthTexture);
+          gl.uniform1i(uniforms.depthTexture, 0);
+          gl.activeTexture(gl.TEXTURE1);
+          gl.bindTexture(gl.TEXTURE_2D, target.normalTexture);
+          gl.uniform1i(uniforms.normalTexture, 1);
+          gl.uniformMatrix4fv(
+            uniforms.inverseProjection,
+            false,
+            inverseProjection
+          );
+          gl.uniform2f(uniforms.texelSize, 1 / width, 1 / height);
+          gl.uniform1f(uniforms.width, outlineWidth);
+          gl.uniform3fv(uniforms.color, outlineColor);
+          gl.enable(gl.BLEND);
+          gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+          drawTriangle(target);
+        }
+
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        gl.disable(gl.BLEND);
+        gl.enable(gl.DEPTH_TEST);
+        gl.bindTexture(gl.TEXTURE_2D, null);
+        gl.activeTexture(gl.TEXTURE0);
+      } catch (error) {
+        console.error("Post-processing error:", error);
+      }
+    },
+    [
+      gl,
+      ambientOcclusion.enabled,
+      strength,
+      radius,
+      outline.enabled,
+      outlineWidth,
+      outlineColor,
+      drawTriangle,
+    ]
+  );
+
+  return {
+    applyPostProcessing:
+      (ambientOcclusion.enabled || outline.enabled) && isSupported
+        ? applyPostProcessing
+        : null,
+    isSupported,
+  };
+};
@@ -1,26 +1,67 @@
 import { useCallback, useRef, useEffect, useState } from "react";
 import { Matrix4 } from "../utils/matrix";
-import { WebGLLocations, WebGLExtensions, ViewMode } from "../types";
+import {
+  ImpostorProgram,
+  WebGLLocations,
+  WebGLExtensions,
+  ViewMode,
+} from "../types";
+import { SHADER_MODE } from "../utils/shaders";
+import {
+  ClippingSlab,
+  clippingPlanes,
+  FogOptions,
+  fogRange,
+} from "../utils/depthCueing";
+import { PostProcessingPass } from "./usePostProcessing";
+import { LayerBuffers } from "./useGeometry";
+import { asWebGL2 } from "./useWebGL";
+
+// Clear colour, which fog fades into
+const BACKGROUND_COLOR: [number, number, number] = [0.0, 0.0, 0.0];
+
+// Sphere size relative to the space-filling radius in ball-and-stick mode
+const BALL_RADIUS_SCALE = 0.3;
+// Radius of both the sticks and their end caps in licorice mode, in Å
+const LICORICE_RADIUS = 0.25;
+
+// radiusScale and fixedRadius uniforms of an atom style
+const sphereRadii = (type: ViewMode): [number, number] => [
+  type === ViewMode.BALL_AND_STICK ? BALL_RADIUS_SCALE : 1.0,
+  type === ViewMode.LICORICE ? LICORICE_RADIUS : 0.0,
+];
 
 interface RenderProps {
-  viewMode: ViewMode;
   gl: WebGLRenderingContext | null;
   program: WebGLProgram | null;
   locations: WebGLLocations | null;
+  impostor: ImpostorProgram | null;
   extensions: WebGLExtensions;
+  cameraBuffer: WebGLBuffer | null; // WebGL2 camera uniform block
   buffers: {
     position: WebGLBuffer | null;
     normal: WebGLBuffer | null;
     index: WebGLBuffer | null;
-    instance: WebGLBuffer | null;
     numIndices: number;
-    ribbonPosition: WebGLBuffer | null;
-    ribbonNormal: WebGLBuffer | null;
-    ribbonColor: WebGLBuffer | null;
-    ribbonIndex: WebGLBuffer | null;
-    ribbonNumIndices: number;
+    quadCorner: WebGLBuffer | null;
+    quadIndex: WebGLBuffer | null;
+    cylinderPosition: WebGLBuffer | null;
+    cylinderNormal: WebGLBuffer | null;
+    cylinderIndex: WebGLBuffer | null;
+    cylinderNumIndices: number;
+    overlayInstance: WebGLBuffer | null;
+    overlayVertexArray: WebGLVertexArrayObject | null;
   };
-  instanceCount: number;
+  layers: LayerBuffers[]; // Drawn in order, translucent ones last
+  overlayInstanceCount: number; // Spheres of the overlaid models, drawn translucent
+  overlayOpacity: number;
+  // Ambient occlusion and outlines of the opaque layers; null while off
+  postProcessing: PostProcessingPass | null;
+  celShading: boolean;
+  fog: FogOptions;
+  slab: ClippingSlab;
+  // Called about once a second with the average time between frames, in ms
+  onFrameTime?: (frameTime: number) => void;
   rotation: [number, number];
   distance: number;
   position: [number, number, number];
@@ -31,14 +72,22 @@ export const useRender = ({
   gl,
   program,
   locations,
+  impostor,
   extensions,
+  cameraBuffer,
   buffers,
-  instanceCount,
+  layers,
+  overlayInstanceCount,
+  overlayOpacity,
+  postProcessing,
+  celShading,
+  fog,
+  slab,
+  onFrameTime,
   rotation,
   distance,
   position,
   target,
-  viewMode,
 }: RenderProps) => {
   const animationFrame = useRef<number>();
   const lastFrameTime = useRef<number>(0);
@@ -48,6 +97,8 @@ export const useRender = ({
     modelView: new Matrix4(),
     projection: new Matrix4(),
   });
+  // Contents of the WebGL2 camera block: model-view, then projection
+  const cameraData = useRef(new Float32Array(32));
 
   // Track if we've initialized WebGL components
   const [isInitialized, setIsInitialized] = useState(false);
@@ -61,11 +112,16 @@ export const useRender = ({
     }
   }, [gl, program, locations]);
 
+  // Eye-space distance of the camera target, which the clipping slab and
+  // fog are placed around
+  const targetDepth = distance - position[2];
+
   const updateMatrices = useCallback(() => {
     if (!gl) return;
 
     const aspect = gl.canvas.width / gl.canvas.height;
-    matrices.current.projection.perspective(Math.PI / 4, aspect, 0.1, 1000.0);
+    const [near, far] = clippingPlanes(targetDepth, slab);
+    matrices.current.projection.perspective(Math.PI / 4, aspect, near, far);
     matrices.current.modelView
       .identity()
       .translate(position[0], position[1], position[2])
@@ -73,123 +129,477 @@ export const useRender = ({
       .rotateX(rotation[0])
       .rotateY(rotation[1])
       .translate(-target[0], -target[1], -target[2]);
-  }, [gl, position, distance, rotation, target]);
+  }, [gl, position, distance, rotation, target, targetDepth, slab]);
 
-  const setupSphereAttributes = useCallback(() => {
-    if (!gl || !locations || !extensions.instancedArrays || !buffers.instance)
-      return;
+  // Lighting and fog uniforms of both programs
+  const updateShading = useCallback(() => {
+    if (!gl || !program || !locations) return;
 
-    try {
-      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.position);
-      gl.enableVertexAttribArray(locations.attributes.position);
-      gl.vertexAttribPointer(
-        locations.attributes.position,
-        3,
-        gl.FLOAT,
-        false,
-        0,
-        0
-      );
+    const [fogNear, fogFar] = fogRange(targetDepth, fog);
+    [
+      { shader: impostor?.program, uniforms: impostor?.locations.uniforms },
+      { shader: program, uniforms: locations.uniforms },
+    ].forEach(({ shader, uniforms }) => {
+      if (!shader || !uniforms) return;
+      gl.useProgram(shader);
+      gl.uniform1i(uniforms.celShading, celShading ? 1 : 0);
+      gl.uniform1f(uniforms.fogNear, fogNear);
+      gl.uniform1f(uniforms.fogFar, fogFar);
+      gl.uniform3fv(uniforms.fogColor, BACKGROUND_COLOR);
+    });
+  }, [gl, program, locations, impostor, celShading, targetDepth, fog]);
 
-      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.normal);
-      gl.enableVertexAttribArray(locations.attributes.normal);
-      gl.vertexAttribPointer(
-        locations.attributes.normal,
-        3,
-        gl.FLOAT,
-        false,
-        0,
-        0
-      );
+  // Binds a unit mesh and the per-instance attributes of an interleaved
+  // instance buffer. Sphere instances are position, color, radius (7 floats);
+  // bond cylinders insert an end point after the position (10 floats).
+  const setupInstancedAttributes = useCallback(
+    (
+      mesh: { position: WebGLBuffer | null; normal: WebGLBuffer | null },
+      instanceBuffer: WebGLBuffer | null,
+      hasEnd: boolean
+    ) => {
+      if (!gl || !locations || !extensions.instancedArrays || !instanceBuffer)
+        return;
 
-      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.instance);
+      const stride = hasEnd ? 40 : 28;
+      const colorOffset = hasEnd ? 24 : 12;
+      const instancedArrays = extensions.instancedArrays;
 
-      gl.enableVertexAttribArray(locations.attributes.instancePosition);
-      gl.vertexAttribPointer(
-        locations.attributes.instancePosition,
-        3,
-        gl.FLOAT,
-        false,
-        28,
-        0
-      );
-      extensions.instancedArrays.vertexAttribDivisorANGLE(
-        locations.attributes.instancePosition,
-        1
-      );
+      const setupInstanceAttribute = (
+        location: number,
+        size: number,
+        offset: number
+      ) => {
+        gl.enableVertexAttribArray(location);
+        gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+        instancedArrays.vertexAttribDivisorANGLE(location, 1);
+      };
 
-      gl.enableVertexAttribArray(locations.attributes.instanceColor);
-      gl.vertexAttribPointer(
-        locations.attributes.instanceColor,
-        3,
-        gl.FLOAT,
-        false,
-        28,
-        12
-      );
-      extensions.instancedArrays.vertexAttribDivisorANGLE(
-        locations.attributes.instanceColor,
-        1
-      );
+      try {
+        gl.bindBuffer(gl.ARRAY_BUFFER, mesh.position);
+        gl.enableVertexAttribArray(locations.attributes.position);
+        gl.vertexAttribPointer(
+          locations.attributes.position,
+          3,
+          gl.FLOAT,
+          false,
+          0,
+          0
+        );
 
-      gl.enableVertexAttribArray(locations.attributes.instanceRadius);
-      gl.vertexAttribPointer(
-        locations.attributes.instanceRadius,
-        1,
-        gl.FLOAT,
-        false,
-        28,
-        24
+        gl.bindBuffer(gl.ARRAY_BUFFER, mesh.normal);
+        gl.enableVertexAttribArray(locations.attributes.normal);
+        gl.vertexAttribPointer(
+          locations.attributes.normal,
+          3,
+          gl.FLOAT,
+          false,
+          0,
+          0
+        );
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+        setupInstanceAttribute(locations.attributes.instancePosition, 3, 0);
+        setupInstanceAttribute(
+          locations.attributes.instanceColor,
+          3,
+          colorOffset
+        );
+        setupInstanceAttribute(
+          locations.attributes.instanceRadius,
+          1,
+          colorOffset + 12
+        );
+
+        // Left enabled by a mesh layer, sized for its vertices
+        if (locations.attributes.color >= 0) {
+          gl.disableVertexAttribArray(locations.attributes.color);
+        }
+
+        if (hasEnd) {
+          setupInstanceAttribute(locations.attributes.instanceEnd, 3, 12);
+        } else if (locations.attributes.instanceEnd >= 0) {
+          // Spheres never read it, but an enabled array would still be
+          // bounds-checked against the sphere instance buffer
+          gl.disableVertexAttribArray(locations.attributes.instanceEnd);
+        }
+      } catch (error) {
+        console.error("Error setting up instanced attributes:", error);
+      }
+    },
+    [gl, locations, extensions]
+  );
+
+  const setupSphereAttributes = useCallback(
+    (instanceBuffer: WebGLBuffer | null) => {
+      setupInstancedAttributes(
+        { position: buffers.position, normal: buffers.normal },
+        instanceBuffer,
+        false
       );
-      extensions.instancedArrays.vertexAttribDivisorANGLE(
-        locations.attributes.instanceRadius,
-        1
+    },
+    [setupInstancedAttributes, buffers]
+  );
+
+  const setupCylinderAttributes = useCallback(
+    (instanceBuffer: WebGLBuffer | null) => {
+      setupInstancedAttributes(
+        { position: buffers.cylinderPosition, normal: buffers.cylinderNormal },
+        instanceBuffer,
+        true
       );
-    } catch (error) {
-      console.error("Error setting up sphere attributes:", error);
+    },
+    [setupInstancedAttributes, buffers]
+  );
+
+  // Binds non-instanced vertices: lines (no normals), surface and cartoon
+  // triangles, starting at baseVertex. The instance arrays are disabled so
+  // these draws never read the sphere or bond buffers.
+  const setupVertexAttributes = useCallback(
+    (
+      positionBuffer: WebGLBuffer | null,
+      normalBuffer: WebGLBuffer | null,
+      colorBuffer: WebGLBuffer | null,
+      baseVertex: number = 0
+    ) => {
+      if (!gl || !locations || !positionBuffer) return;
+
+      try {
+        const { attributes } = locations;
+        [
+          attributes.instancePosition,
+          attributes.instanceColor,
+          attributes.instanceRadius,
+          attributes.instanceEnd,
+        ]
+          .filter((location) => location >= 0)
+          .forEach((location) => gl.disableVertexAttribArray(location));
+
+        const offset = baseVertex * 12;
+        gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+        gl.enableVertexAttribArray(attributes.position);
+        gl.vertexAttribPointer(
+          attributes.position,
+          3,
+          gl.FLOAT,
+          false,
+          0,
+          offset
+        );
+
+        if (normalBuffer) {
+          gl.bindBuffer(gl.ARRAY_BUFFER, normalBuffer);
+          gl.enableVertexAttribArray(attributes.normal);
+          gl.vertexAttribPointer(
+            attributes.normal,
+            3,
+            gl.FLOAT,
+            false,
+            0,
+            offset
+          );
+        } else if (attributes.normal >= 0) {
+          gl.disableVertexAttribArray(attributes.normal);
+        }
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
+        gl.enableVertexAttribArray(attributes.color);
+        gl.vertexAttribPointer(attributes.color, 3, gl.FLOAT, false, 0, offset);
+      } catch (error) {
+        console.error("Error setting up vertex attributes:", error);
+      }
+    },
+    [gl, locations]
+  );
+
+  // Leaves every vertex attribute disabled and per-vertex. Needed around
+  // draws with the impostor program, which reads other attributes than the
+  // main program.
+  const resetVertexAttributes = useCallback(() => {
+    if (!gl || !extensions.instancedArrays) return;
+
+    const count: number = gl.getParameter(gl.MAX_VERTEX_ATTRIBS);
+    for (let location = 0; location < count; location++) {
+      gl.disableVertexAttribArray(location);
+      extensions.instancedArrays.vertexAttribDivisorANGLE(location, 0);
     }
-  }, [gl, locations, extensions, buffers]);
+  }, [gl, extensions]);
 
-  const setupRibbonAttributes = useCallback(() => {
-    if (!gl || !locations || !buffers.ribbonPosition) return;
+  // Draws sphere instances (7 floats each) in an atom style: as ray-cast
+  // impostor quads, or as instanced meshes without EXT_frag_depth
+  const drawSpheres = useCallback(
+    (
+      instanceBuffer: WebGLBuffer,
+      instanceCount: number,
+      type: ViewMode,
+      opacity: number
+    ) => {
+      if (!gl || !locations || !extensions.instancedArrays) return;
 
-    try {
-      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.ribbonPosition);
-      gl.enableVertexAttribArray(locations.attributes.position);
-      gl.vertexAttribPointer(
-        locations.attributes.position,
-        3,
-        gl.FLOAT,
+      const [radiusScale, fixedRadius] = sphereRadii(type);
+      if (!impostor || !buffers.quadCorner) {
+        setupSphereAttributes(instanceBuffer);
+        gl.uniform1i(locations.uniforms.viewMode, SHADER_MODE.SPHERES);
+        gl.uniform1f(locations.uniforms.radiusScale, radiusScale);
+        gl.uniform1f(locations.uniforms.fixedRadius, fixedRadius);
+        gl.uniform1f(locations.uniforms.opacity, opacity);
+        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, buffers.index);
+        extensions.instancedArrays.drawElementsInstancedANGLE(
+          gl.TRIANGLES,
+          buffers.numIndices,
+          gl.UNSIGNED_SHORT,
+          0,
+          instanceCount
+        );
+        return;
+      }
+
+      const { attributes, uniforms } = impostor.locations;
+      const instancedArrays = extensions.instancedArrays;
+      resetVertexAttributes();
+      gl.useProgram(impostor.program);
+
+      gl.uniformMatrix4fv(
+        uniforms.modelViewMatrix,
         false,
-        0,
-        0
+        matrices.current.modelView.array
       );
-
-      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.ribbonNormal);
-      gl.enableVertexAttribArray(locations.attributes.normal);
-      gl.vertexAttribPointer(
-        locations.attributes.normal,
-        3,
-        gl.FLOAT,
+      gl.uniformMatrix4fv(
+        uniforms.projectionMatrix,
         false,
+        matrices.current.projection.array
+      );
+      gl.uniform1f(uniforms.radiusScale, radiusScale);
+      gl.uniform1f(uniforms.fixedRadius, fixedRadius);
+      gl.uniform1f(uniforms.opacity, opacity);
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.quadCorner);
+      gl.enableVertexAttribArray(attributes.corner);
+      gl.vertexAttribPointer(attributes.corner, 2, gl.FLOAT, false, 0, 0);
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+      (
+        [
+          [attributes.instancePosition, 3, 0],
+          [attributes.instanceColor, 3, 12],
+          [attributes.instanceRadius, 1, 24],
+        ] as const
+      ).forEach(([location, size, offset]) => {
+        gl.enableVertexAttribArray(location);
+        gl.vertexAttribPointer(location, size, gl.FLOAT, false, 28, offset);
+        instancedArrays.vertexAttribDivisorANGLE(location, 1);
+      });
+
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, buffers.quadIndex);
+      instancedArrays.drawElementsInstancedANGLE(
+        gl.TRIANGLES,
+        6,
+        gl.UNSIGNED_SHORT,
         0,
-        0
+        instanceCount
       );
 
-      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.ribbonColor);
-      gl.enableVertexAttribArray(locations.attributes.color);
-      gl.vertexAttribPointer(
-        locations.attributes.color,
-        3,
-        gl.FLOAT,
-        false,
+      resetVertexAttributes();
+      gl.useProgram(program);
+    },
+    [
+      gl,
+      program,
+      locations,
+      impostor,
+      extensions,
+      buffers,
+      setupSphereAttributes,
+      resetVertexAttributes,
+    ]
+  );
+
+  const drawLayer = useCallback(
+    (layer: LayerBuffers, opacity: number) => {
+      if (!gl || !locations) return;
+      gl.uniform1f(locations.uniforms.opacity, opacity);
+
+      if (layer.type === ViewMode.LINES) {
+        if (!layer.meshPosition || layer.meshCount === 0) return;
+        setupVertexAttributes(layer.meshPosition, null, layer.meshColor);
+        gl.uniform1i(locations.uniforms.viewMode, SHADER_MODE.LINES);
+        gl.drawArrays(gl.LINES, 0, layer.meshCount);
+      } else if (
+        layer.type === ViewMode.SURFACE ||
+        layer.type === ViewMode.RIBBON
+      ) {
+        if (!layer.meshPosition || layer.meshCount === 0) return;
+        gl.uniform1i(
+          locations.uniforms.viewMode,
+          layer.type === ViewMode.SURFACE
+            ? SHADER_MODE.SURFACE
+            : SHADER_MODE.RIBBON
+        );
+        if (!layer.meshIndex) {
+          setupVertexAttributes(
+            layer.meshPosition,
+            layer.meshNormal,
+            layer.meshColor
+          );
+          gl.drawArrays(gl.TRIANGLES, 0, layer.meshCount);
+          return;
+        }
+
+        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, layer.meshIndex);
+        const indexSize = layer.meshIndexType === gl.UNSIGNED_INT ? 4 : 2;
+        layer.meshChunks.forEach(({ baseVertex, offset, count }) => {
+          setupVertexAttributes(
+            layer.meshPosition,
+            layer.meshNormal,
+            layer.meshColor,
+            baseVertex
+          );
+          gl.drawElements(
+            gl.TRIANGLES,
+            count,
+            layer.meshIndexType,
+            offset * indexSize
+          );
+        });
+      } else {
+        if (!extensions.instancedArrays) return;
+
+        if (layer.instance && layer.instanceCount > 0) {
+          drawSpheres(layer.instance, layer.instanceCount, layer.type, opacity);
+        }
+
+        if (layer.bondInstance && layer.bondInstanceCount > 0) {
+          setupCylinderAttributes(layer.bondInstance);
+          gl.uniform1f(
+            locations.uniforms.fixedRadius,
+            sphereRadii(layer.type)[1]
+          );
+          gl.uniform1i(locations.uniforms.viewMode, SHADER_MODE.CYLINDERS);
+          gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, buffers.cylinderIndex);
+          extensions.instancedArrays.drawElementsInstancedANGLE(
+            gl.TRIANGLES,
+            buffers.cylinderNumIndices,
+            gl.UNSIGNED_SHORT,
+            0,
+            layer.bondInstanceCount
+          );
+        }
+      }
+    },
+    [
+      gl,
+      locations,
+      extensions,
+      buffers,
+      setupVertexAttributes,
+      setupCylinderAttributes,
+      drawSpheres,
+    ]
+  );
+
+  // WebGL2: sphere instances through a vertex array of impostor quads, or
+  // of the tessellated sphere when the impostor program did not build
+  const drawSphereVertexArray = useCallback(
+    (
+      gl2: WebGL2RenderingContext,
+      vertexArray: WebGLVertexArrayObject,
+      instanceCount: number,
+      type: ViewMode,
+      opacity: number
+    ) => {
+      const [radiusScale, fixedRadius] = sphereRadii(type);
+      if (!impostor) {
+        if (!locations) return;
+        const { uniforms } = locations;
+        gl2.uniform1i(uniforms.viewMode, SHADER_MODE.SPHERES);
+        gl2.uniform1f(uniforms.radiusScale, radiusScale);
+        gl2.uniform1f(uniforms.fixedRadius, fixedRadius);
+        gl2.uniform1f(uniforms.opacity, opacity);
+        gl2.bindVertexArray(vertexArray);
+        gl2.drawElementsInstanced(
+          gl2.TRIANGLES,
+          buffers.numIndices,
+          gl2.UNSIGNED_SHORT,
+          0,
+          instanceCount
+        );
+        return;
+      }
+
+      const { uniforms } = impostor.locations;
+      gl2.useProgram(impostor.program);
+      gl2.uniform1f(uniforms.radiusScale, radiusScale);
+      gl2.uniform1f(uniforms.fixedRadius, fixedRadius);
+      gl2.uniform1f(uniforms.opacity, opacity);
+      gl2.bindVertexArray(vertexArray);
+      gl2.drawElementsInstanced(
+        gl2.TRIANGLES,
+        6,
+        gl2.UNSIGNED_SHORT,
         0,
-        0
+        instanceCount
       );
-    } catch (error) {
-      console.error("Error setting up ribbon attributes:", error);
-    }
-  }, [gl, locations, buffers]);
+      gl2.useProgram(program);
+    },
+    [program, locations, impostor, buffers]
+  );
+
+  // WebGL2 counterpart of drawLayer: each draw binds the vertex array built
+  // with its buffers, so no attribute state carries over between draws
+  const drawLayerVertexArrays = useCallback(
+    (gl2: WebGL2RenderingContext, layer: LayerBuffers, opacity: number) => {
+      if (!locations) return;
+      const { uniforms } = locations;
+      gl2.uniform1f(uniforms.opacity, opacity);
+
+      if (layer.instance && layer.vertexArray && layer.instanceCount > 0) {
+        drawSphereVertexArray(
+          gl2,
+          layer.vertexArray,
+          layer.instanceCount,
+          layer.type,
+          opacity
+        );
+      } else if (layer.vertexArray && layer.meshCount > 0) {
+        gl2.uniform1i(
+          uniforms.viewMode,
+          layer.type === ViewMode.LINES
+            ? SHADER_MODE.LINES
+            : layer.type === ViewMode.SURFACE
+            ? SHADER_MODE.SURFACE
+            : SHADER_MODE.RIBBON
+        );
+        gl2.bindVertexArray(layer.vertexArray);
+        if (layer.type === ViewMode.LINES) {
+          gl2.drawArrays(gl2.LINES, 0, layer.meshCount);
+        } else if (layer.meshIndex) {
+          // 32-bit indices are always available, so there is one chunk
+          gl2.drawElements(
+            gl2.TRIANGLES,
+            layer.meshChunks[0]?.count ?? 0,
+            layer.meshIndexType,
+            0
+          );
+        } else {
+          gl2.drawArrays(gl2.TRIANGLES, 0, layer.meshCount);
+        }
+      }
+
+      if (layer.bondVertexArray && layer.bondInstanceCount > 0) {
+        gl2.uniform1i(uniforms.viewMode, SHADER_MODE.CYLINDERS);
+        gl2.uniform1f(uniforms.fixedRadius, sphereRadii(layer.type)[1]);
+        gl2.bindVertexArray(layer.bondVertexArray);
+        gl2.drawElementsInstanced(
+          gl2.TRIANGLES,
+          buffers.cylinderNumIndices,
+          gl2.UNSIGNED_SHORT,
+          0,
+          layer.bondInstanceCount
+        );
+      }
+    },
+    [locations, buffers, drawSphereVertexArray]
+  );
 
   const render = useCallback(() => {
     if (!isInitialized) {
@@ -202,64 +612,144 @@ export const useRender = ({
 
     try {
       const currentTime = performance.now();
-      if (currentTime - lastFrameTime.current >= 1000) {
+      const elapsed = currentTime - lastFrameTime.current;
+      if (elapsed >= 1000) {
         console.debug("FPS:", frameCount.current);
+        // A longer gap means rendering was paused, e.g. in a hidden tab
+        if (frameCount.current > 0 && elapsed < 2000) {
+          onFrameTime?.(elapsed / frameCount.current);
+        }
         frameCount.current = 0;
         lastFrameTime.current = currentTime;
       }
       frameCount.current++;
 
       gl.viewport(0, 0, gl.canvas.width, gl.canvas.height);
-      gl.clearColor(0.0, 0.0, 0.0, 1.0);
+      gl.clearColor(...BACKGROUND_COLOR, 1.0);
       gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+      updateShading();
       gl.useProgram(program);
 
       updateMatrices();
-      gl.uniformMatrix4fv(
-        locations.uniforms.modelViewMatrix,
-        false,
-        matrices.current.modelView.array
-      );
-      gl.uniformMatrix4fv(
-        locations.uniforms.projectionMatrix,
-        false,
-        matrices.current.projection.array
-      );
+      const gl2 = asWebGL2(gl);
+      if (gl2 && cameraBuffer) {
+        cameraData.current.set(matrices.current.modelView.array, 0);
+        cameraData.current.set(matrices.current.projection.array, 16);
+        gl2.bindBuffer(gl2.UNIFORM_BUFFER, cameraBuffer);
+        gl2.bufferSubData(gl2.UNIFORM_BUFFER, 0, cameraData.current);
+      } else {
+        gl.uniformMatrix4fv(
+          locations.uniforms.modelViewMatrix,
+          false,
+          matrices.current.modelView.array
+        );
+        gl.uniformMatrix4fv(
+          locations.uniforms.projectionMatrix,
+          false,
+          matrices.current.projection.array
+        );
+      }
 
-      gl.uniform1i(
-        locations.uniforms.viewMode,
-        viewMode === ViewMode.RIBBON ? 1 : 0
-      );
+      gl.uniform1f(locations.uniforms.opacity, 1.0);
 
-      if (viewMode === ViewMode.SPHERES) {
-        if (!extensions.instancedArrays || !buffers.instance) {
-          console.debug("Missing sphere mode requirements");
-          return;
+      const drawEntry = (layer: LayerBuffers) => {
+        if (gl2) {
+          drawLayerVertexArrays(gl2, layer, layer.opacity);
+        } else {
+          drawLayer(layer, layer.opacity);
         }
-        setupSphereAttributes();
-        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, buffers.index);
-        extensions.instancedArrays.drawElementsInstancedANGLE(
-          gl.TRIANGLES,
-          buffers.numIndices,
-          gl.UNSIGNED_SHORT,
-          0,
-          instanceCount
+      };
+
+      // Opaque layers first. Translucent ones follow from the furthest to
+      // the nearest, by the depth of their centres.
+      const modelView = matrices.current.modelView.array;
+      const depthOf = ({ center }: LayerBuffers) =>
+        -(
+          modelView[2] * center[0] +
+          modelView[6] * center[1] +
+          modelView[10] * center[2] +
+          modelView[14]
         );
-      } else {
-        if (!buffers.ribbonPosition) {
-          console.debug("Missing ribbon mode requirements");
-          return;
+      const opaque = layers.filter(({ opacity }) => opacity >= 1.0);
+      const translucent = layers
+        .filter(({ opacity }) => opacity < 1.0)
+        .sort((a, b) => depthOf(b) - depthOf(a));
+
+      const drawLayers = () => opaque.forEach(drawEntry);
+      drawLayers();
+
+      if (postProcessing) {
+        // Both programs write normals instead of colours while set
+        const setNormalPass = (enabled: boolean) => {
+          if (impostor) {
+            gl.useProgram(impostor.program);
+            gl.uniform1i(
+              impostor.locations.uniforms.normalPass,
+              enabled ? 1 : 0
+            );
+          }
+          gl.useProgram(program);
+          gl.uniform1i(locations.uniforms.normalPass, enabled ? 1 : 0);
+        };
+        postProcessing(() => {
+          setNormalPass(true);
+          drawLayers();
+          setNormalPass(false);
+        }, matrices.current.projection);
+        gl.useProgram(program);
+      }
+
+      // Each translucent layer first fills the depth buffer alone, so only
+      // its nearest surface is blended over what lies behind it
+      if (translucent.length > 0) {
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+        translucent.forEach((entry) => {
+          gl.colorMask(false, false, false, false);
+          drawEntry(entry);
+          gl.colorMask(true, true, true, true);
+          gl.depthFunc(gl.LEQUAL);
+          drawEntry(entry);
+          gl.depthFunc(gl.LESS);
+        });
+        gl.disable(gl.BLEND);
+        gl.uniform1f(locations.uniforms.opacity, 1.0);
+      }
+
+      // Overlaid models are blended over the layers without writing depth,
+      // so they never hide each other. They take the size of the first
+      // atom style shown.
+      const overlayType =
+        layers.find((layer) => layer.instance)?.type ?? ViewMode.SPHERES;
+      if (overlayInstanceCount > 0 && (gl2 || extensions.instancedArrays)) {
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+        gl.depthMask(false);
+        if (gl2 && buffers.overlayVertexArray) {
+          drawSphereVertexArray(
+            gl2,
+            buffers.overlayVertexArray,
+            overlayInstanceCount,
+            overlayType,
+            overlayOpacity
+          );
+        } else if (!gl2 && buffers.overlayInstance) {
+          drawSpheres(
+            buffers.overlayInstance,
+            overlayInstanceCount,
+            overlayType,
+            overlayOpacity
+          );
         }
-        setupRibbonAttributes();
-        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, buffers.ribbonIndex);
-        gl.drawElements(
-          gl.TRIANGLES,
-          buffers.ribbonNumIndices,
-          gl.UNSIGNED_SHORT,
-          0
-        );
+        gl.depthMask(true);
+        gl.disable(gl.BLEND);
+        gl.uniform1f(locations.uniforms.opacity, 1.0);
       }
 
+      // Unbound, so buffer uploads between frames cannot change the last
+      // vertex array drawn
+      gl2?.bindVertexArray(null);
+
       const error = gl.getError();
       if (error !== gl.NO_ERROR) {
         console.debug("WebGL error:", error);
@@ -273,12 +763,20 @@ export const useRender = ({
     program,
     locations,
     extensions,
+    cameraBuffer,
     buffers,
-    instanceCount,
-    viewMode,
+    layers,
+    overlayInstanceCount,
+    overlayOpacity,
+    postProcessing,
+    impostor,
+    onFrameTime,
     updateMatrices,
-    setupSphereAttributes,
-    setupRibbonAttributes,
+    updateShading,
+    drawLayer,
+    drawSpheres,
+    drawLayerVertexArrays,
+    drawSphereVertexArray,
   ]);
 
   useEffect(() => {
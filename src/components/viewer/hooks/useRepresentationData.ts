@@ -0,0 +1,183 @@
+// src/components/viewer/hooks/useRepresentationData.ts
+
+import { useMemo, useRef } from "react";
+import { Structure } from "@/lib/structure/types";
+import { SurfaceOptions } from "@/lib/structure/surface";
+import { selectionUsesPositions } from "@/lib/structure/selection";
+import {
+  MESH_VIEW_MODES,
+  Representation,
+  RepresentationData,
+  ViewMode,
+} from "../types";
+import {
+  extractAtomsWithMetadata,
+  extractRepresentationData,
+  getTopologyReference,
+} from "../utils/pdbParser";
+import { TubeDetail } from "../utils/levelOfDetail";
+import { applyAtomColors, computeAtomColors } from "../utils/colorSchemes";
+
+interface CachedRepresentation {
+  geometryKey: string; // Everything the geometry depends on
+  geometry: RepresentationData; // With the colours it was built with
+  colorKey: string;
+  data: RepresentationData;
+}
+
+// Meshes, and selections by distance, differ between frames of a
+// trajectory; other representations are only moved (see useGeometry)
+const followsFrame = ({ type, selection }: Representation) =>
+  MESH_VIEW_MODES.includes(type) || selectionUsesPositions(selection);
+
+const getGeometryKey = (
+  representation: Representation,
+  surfaceOptions: SurfaceOptions,
+  tubeDetail: TubeDetail,
+  modelIndex: number
+) =>
+  JSON.stringify([
+    representation.type,
+    representation.selection,
+    representation.type === ViewMode.SURFACE ? surfaceOptions : null,
+    representation.type === ViewMode.RIBBON ? tubeDetail : null,
+    followsFrame(representation) ? modelIndex : null,
+  ]);
+
+// Secondary structure can be assigned per frame (see moveModelData), so
+// that scheme repaints for every model
+const getColorKey = (
+  { colorScheme, color }: Representation,
+  modelIndex: number
+) =>
+  JSON.stringify(
+    colorScheme === "uniform"
+      ? [colorScheme, color]
+      : colorScheme === "secondary-structure"
+      ? [colorScheme, modelIndex]
+      : colorScheme
+  );
+
+// Geometry of the visible representations, in list order. Each entry is
+// rebuilt only when its own settings change, a new colour scheme only
+// repaints it and a new opacity only copies it, so editing one layer leaves
+// the others (and their uploaded buffers) alone. Hidden entries keep their geometry for when they are
+// shown again. A new model clears the cache, and a new tube detail
+// rebuilds the cartoons. modelData is that of the first model with the
+// displayed one's topology, and frameData the same moved to the displayed
+// model: a new frame of a trajectory only rebuilds the meshes and repaints
+// secondary structure colours.
+export const useRepresentationData = (
+  structure: Structure | null,
+  modelIndex: number,
+  modelData: ReturnType<typeof extractAtomsWithMetadata> | null,
+  frameData: ReturnType<typeof extractAtomsWithMetadata> | null,
+  representations: Representation[],
+  surfaceOptions: SurfaceOptions,
+  tubeDetail: TubeDetail
+): RepresentationData[] => {
+  const cache = useRef(new Map<number, CachedRepresentation>());
+  // Per-atom colours of each scheme used so far
+  const atomColorCache = useRef(new Map<string, Float32Array>());
+  const cachedModel = useRef<typeof modelData>(null);
+  const cachedFrame = useRef<typeof frameData>(null);
+
+  return useMemo(() => {
+    if (cachedModel.current !== modelData) {
+      cache.current.clear();
+      atomColorCache.current.clear();
+      cachedModel.current = modelData;
+    }
+    if (cachedFrame.current !== frameData) {
+      atomColorCache.current.delete("secondary-structure");
+      cachedFrame.current = frameData;
+    }
+    if (!structure || !modelData || !frameData) return [];
+    const referenceIndex = getTopologyReference(structure, modelIndex);
+
+    const ids = new Set(representations.map(({ id }) => id));
+    cache.current.forEach((_, id) => {
+      if (!ids.has(id)) cache.current.delete(id);
+    });
+
+    const getAtomColors = ({ colorScheme, color }: Representation) => {
+      if (colorScheme === "uniform") {
+        return Float32Array.from(
+          { length: modelData.atomsMetadata.length * 3 },
+          (_, i) => color[i % 3]
+        );
+      }
+      if (colorScheme === "default") return null;
+
+      let colors = atomColorCache.current.get(colorScheme);
+      if (!colors) {
+        colors = computeAtomColors(colorScheme, frameData.atomsMetadata);
+        atomColorCache.current.set(colorScheme, colors);
+      }
+      return colors;
+    };
+
+    return representations
+      .filter(({ visible }) => visible)
+      .map((representation) => {
+        const geometryKey = getGeometryKey(
+          representation,
+          surfaceOptions,
+          tubeDetail,
+          modelIndex
+        );
+        const colorKey = getColorKey(representation, modelIndex);
+        const cached = cache.current.get(representation.id);
+        const sameGeometry = cached?.geometryKey === geometryKey;
+        const { opacity } = representation;
+        if (sameGeometry && cached.colorKey === colorKey) {
+          if (cached.data.opacity === opacity) return cached.data;
+          // A new opacity keeps the uploaded buffers (see useGeometry)
+          cached.data = { ...cached.data, opacity };
+          return cached.data;
+        }
+
+        const geometry =
+          sameGeometry && cached
+            ? cached.geometry
+            : followsFrame(representation)
+            ? extractRepresentationData(
+                structure,
+                modelIndex,
+                frameData,
+                representation,
+                surfaceOptions,
+                tubeDetail
+              )
+            : extractRepresentationData(
+                structure,
+                referenceIndex,
+                modelData,
+                representation,
+                surfaceOptions,
+                tubeDetail
+              );
+        const atomColors = getAtomColors(representation);
+        const painted = atomColors
+          ? applyAtomColors(geometry, atomColors)
+          : geometry;
+        const data =
+          painted.opacity === opacity ? painted : { ...painted, opacity };
+        cache.current.set(representation.id, {
+          geometryKey,
+          geometry,
+          colorKey,
+          data,
+        });
+        return data;
+      });
+  }, [
+    structure,
+    modelIndex,
+    modelData,
+    frameData,
+    representations,
+    surfaceOptions,
+    tubeDetail,
+  ]);
+};
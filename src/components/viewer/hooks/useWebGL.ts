@@ -1,17 +1,42 @@
 // src/components/viewer/hooks/useWebGL.ts
 
 import { useEffect, useState } from "react";
-import { WebGLSetup, WebGLLocations } from "../types";
-import { vertexShaderSource, fragmentShaderSource } from "../utils/shaders";
+import { ImpostorProgram, WebGLSetup, WebGLLocations } from "../types";
+import {
+  vertexShaderSource,
+  fragmentShaderSource,
+  impostorVertexShaderSource,
+  impostorFragmentShaderSource,
+  toGLSL300,
+  ATTRIBUTE_LOCATIONS,
+  CAMERA_BLOCK,
+  CAMERA_BLOCK_BINDING,
+  CAMERA_BLOCK_SIZE,
+} from "../utils/shaders";
+
+// The context as WebGL2, or null on the WebGL1 fallback
+export function asWebGL2(
+  gl: WebGLRenderingContext
+): WebGL2RenderingContext | null {
+  return typeof WebGL2RenderingContext !== "undefined" &&
+    gl instanceof WebGL2RenderingContext
+    ? gl
+    : null;
+}
 
 export const useWebGL = (canvas: HTMLCanvasElement | null): WebGLSetup => {
   const [setup, setSetup] = useState<WebGLSetup>({
     gl: null,
     program: null,
     locations: null,
+    impostor: null,
     extensions: {
       instancedArrays: null,
+      fragDepth: null,
+      elementIndexUint: null,
+      depthTexture: null,
     },
+    cameraBuffer: null,
   });
 
   useEffect(() => {
@@ -23,32 +48,43 @@ export const useWebGL = (canvas: HTMLCanvasElement | null): WebGLSetup => {
     let isActive = true;
     console.log("Initializing WebGL context");
 
-    // Initialize WebGL context
-    const gl = canvas.getContext("webgl", {
+    // Initialize WebGL context, preferring WebGL2
+    const contextAttributes: WebGLContextAttributes = {
       alpha: false,
       antialias: true,
       preserveDrawingBuffer: true,
       depth: true,
-    });
+    };
+    const gl2 = canvas.getContext("webgl2", contextAttributes);
+    const gl = gl2 ?? canvas.getContext("webgl", contextAttributes);
 
     if (!gl) {
       console.error("WebGL not available");
       return;
     }
+    console.log(gl2 ? "Using WebGL2" : "WebGL2 not available, using WebGL1");
+    const shaderSource = (source: string, stage: "vertex" | "fragment") =>
+      gl2 ? toGLSL300(source, stage) : source;
 
-    // Get required extensions
-    const instancedArrays = gl.getExtension("ANGLE_instanced_arrays");
-    if (!instancedArrays) {
+    // Get required extensions; WebGL2 has instancing built in
+    const instancedArrays = gl2
+      ? null
+      : gl.getExtension("ANGLE_instanced_arrays");
+    if (!gl2 && !instancedArrays) {
       console.error("ANGLE_instanced_arrays extension not supported");
       return;
     }
 
     // Create and compile shaders
-    const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const vertexShader = createShader(
+      gl,
+      gl.VERTEX_SHADER,
+      shaderSource(vertexShaderSource, "vertex")
+    );
     const fragmentShader = createShader(
       gl,
       gl.FRAGMENT_SHADER,
-      fragmentShaderSource
+      shaderSource(fragmentShaderSource, "fragment")
     );
 
     if (!vertexShader || !fragmentShader) {
@@ -73,12 +109,21 @@ export const useWebGL = (canvas: HTMLCanvasElement | null): WebGLSetup => {
         instancePosition: gl.getAttribLocation(program, "instancePosition"),
         instanceColor: gl.getAttribLocation(program, "instanceColor"),
         instanceRadius: gl.getAttribLocation(program, "instanceRadius"),
+        instanceEnd: gl.getAttribLocation(program, "instanceEnd"),
         color: gl.getAttribLocation(program, "color"),
       },
       uniforms: {
         modelViewMatrix: gl.getUniformLocation(program, "modelViewMatrix"),
         projectionMatrix: gl.getUniformLocation(program, "projectionMatrix"),
         viewMode: gl.getUniformLocation(program, "viewMode"),
+        radiusScale: gl.getUniformLocation(program, "radiusScale"),
+        fixedRadius: gl.getUniformLocation(program, "fixedRadius"),
+        opacity: gl.getUniformLocation(program, "opacity"),
+        normalPass: gl.getUniformLocation(program, "normalPass"),
+        fogNear: gl.getUniformLocation(program, "fogNear"),
+        fogFar: gl.getUniformLocation(program, "fogFar"),
+        fogColor: gl.getUniformLocation(program, "fogColor"),
+        celShading: gl.getUniformLocation(program, "celShading"),
       },
     };
 
@@ -92,6 +137,36 @@ export const useWebGL = (canvas: HTMLCanvasElement | null): WebGLSetup => {
       ),
     });
 
+    // Spheres are ray-cast impostors when fragment depth can be written,
+    // and tessellated meshes otherwise, or when the impostor program does
+    // not build. WebGL2 can always write fragment depth.
+    const fragDepth = gl2 ? null : gl.getExtension("EXT_frag_depth");
+    const impostor = gl2 || fragDepth ? createImpostorProgram(gl) : null;
+    if (!impostor) {
+      console.warn("Sphere impostors unavailable, drawing spheres as meshes");
+    }
+
+    // Large cartoons need 32-bit indices, or are drawn in chunks without.
+    // WebGL2 supports them natively.
+    const elementIndexUint = gl2
+      ? null
+      : gl.getExtension("OES_element_index_uint");
+
+    // Ambient occlusion reads the depth buffer back as a texture
+    const depthTexture = gl2 ? null : gl.getExtension("WEBGL_depth_texture");
+
+    // Camera matrices of both programs, in one uniform buffer
+    const cameraBuffer = gl2 ? createCameraBuffer(gl2) : null;
+    if (gl2 && cameraBuffer) {
+      [program, impostor?.program].forEach((linked) => {
+        if (!linked) return;
+        const block = gl2.getUniformBlockIndex(linked, CAMERA_BLOCK);
+        if (block !== gl2.INVALID_INDEX) {
+          gl2.uniformBlockBinding(linked, block, CAMERA_BLOCK_BINDING);
+        }
+      });
+    }
+
     // Enable depth testing
     gl.enable(gl.DEPTH_TEST);
     gl.enable(gl.CULL_FACE);
@@ -101,9 +176,14 @@ export const useWebGL = (canvas: HTMLCanvasElement | null): WebGLSetup => {
         gl,
         program,
         locations,
+        impostor,
         extensions: {
           instancedArrays,
+          fragDepth,
+          elementIndexUint,
+          depthTexture,
         },
+        cameraBuffer,
       });
     }
 
@@ -123,6 +203,12 @@ export const useWebGL = (canvas: HTMLCanvasElement | null): WebGLSetup => {
         if (fragmentShader) {
           gl.deleteShader(fragmentShader);
         }
+        if (impostor) {
+          gl.deleteProgram(impostor.program);
+        }
+        if (cameraBuffer) {
+          gl.deleteBuffer(cameraBuffer);
+        }
 
         // Disable vertex attribute arrays
         for (const key in locations.attributes) {
@@ -139,7 +225,14 @@ export const useWebGL = (canvas: HTMLCanvasElement | null): WebGLSetup => {
           gl: null,
           program: null,
           locations: null,
-          extensions: { instancedArrays: null },
+          impostor: null,
+          extensions: {
+            instancedArrays: null,
+            fragDepth: null,
+            elementIndexUint: null,
+            depthTexture: null,
+          },
+          cameraBuffer: null,
         });
       }
     };
@@ -148,6 +241,87 @@ export const useWebGL = (canvas: HTMLCanvasElement | null): WebGLSetup => {
   return setup;
 };
 
+// Builds the sphere impostor program; on WebGL1 the extension must already
+// be enabled. Returns null (and the caller falls back to meshes) on
+// failure.
+function createImpostorProgram(
+  gl: WebGLRenderingContext
+): ImpostorProgram | null {
+  const program = createProgramFromSources(
+    gl,
+    impostorVertexShaderSource,
+    impostorFragmentShaderSource
+  );
+  if (!program) return null;
+
+  return {
+    program,
+    locations: {
+      attributes: {
+        corner: gl.getAttribLocation(program, "corner"),
+        instancePosition: gl.getAttribLocation(program, "instancePosition"),
+        instanceColor: gl.getAttribLocation(program, "instanceColor"),
+        instanceRadius: gl.getAttribLocation(program, "instanceRadius"),
+      },
+      uniforms: {
+        modelViewMatrix: gl.getUniformLocation(program, "modelViewMatrix"),
+        projectionMatrix: gl.getUniformLocation(program, "projectionMatrix"),
+        radiusScale: gl.getUniformLocation(program, "radiusScale"),
+        fixedRadius: gl.getUniformLocation(program, "fixedRadius"),
+        opacity: gl.getUniformLocation(program, "opacity"),
+        normalPass: gl.getUniformLocation(program, "normalPass"),
+        fogNear: gl.getUniformLocation(program, "fogNear"),
+        fogFar: gl.getUniformLocation(program, "fogFar"),
+        fogColor: gl.getUniformLocation(program, "fogColor"),
+        celShading: gl.getUniformLocation(program, "celShading"),
+      },
+    },
+  };
+}
+
+// Compiles and links a program from the GLSL ES 1.00 sources of
+// utils/shaders, translated on WebGL2. Returns null on failure.
+export function createProgramFromSources(
+  gl: WebGLRenderingContext,
+  vertexSource: string,
+  fragmentSource: string
+): WebGLProgram | null {
+  const webgl2 = asWebGL2(gl) !== null;
+  const vertexShader = createShader(
+    gl,
+    gl.VERTEX_SHADER,
+    webgl2 ? toGLSL300(vertexSource, "vertex") : vertexSource
+  );
+  const fragmentShader = createShader(
+    gl,
+    gl.FRAGMENT_SHADER,
+    webgl2 ? toGLSL300(fragmentSource, "fragment") : fragmentSource
+  );
+  const program =
+    vertexShader && fragmentShader
+      ? createProgram(gl, vertexShader, fragmentShader)
+      : null;
+
+  // Linked programs keep working without their shader objects
+  if (vertexShader) gl.deleteShader(vertexShader);
+  if (fragmentShader) gl.deleteShader(fragmentShader);
+  return program;
+}
+
+// Uniform buffer behind the camera block of both programs
+function createCameraBuffer(gl: WebGL2RenderingContext): WebGLBuffer | null {
+  const buffer = gl.createBuffer();
+  if (!buffer) {
+    console.error("Failed to create camera uniform buffer");
+    return null;
+  }
+
+  gl.bindBuffer(gl.UNIFORM_BUFFER, buffer);
+  gl.bufferData(gl.UNIFORM_BUFFER, CAMERA_BLOCK_SIZE, gl.DYNAMIC_DRAW);
+  gl.bindBufferBase(gl.UNIFORM_BUFFER, CAMERA_BLOCK_BINDING, buffer);
+  return buffer;
+}
+
 function createShader(
   gl: WebGLRenderingContext,
   type: number,
@@ -189,6 +363,9 @@ function createProgram(
 
   gl.attachShader(program, vertexShader);
   gl.attachShader(program, fragmentShader);
+  Object.entries(ATTRIBUTE_LOCATIONS).forEach(([name, location]) =>
+    gl.bindAttribLocation(program, location, name)
+  );
   gl.linkProgram(program);
 
   if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
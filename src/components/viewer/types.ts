@@ -1,23 +1,125 @@
+import { ParseDiagnostic, SecondaryStructure } from "@/lib/structure/types";
+
 export enum ViewMode {
   SPHERES = "spheres",
+  BALL_AND_STICK = "ball-and-stick",
+  LICORICE = "licorice",
+  LINES = "lines",
+  SURFACE = "surface",
   RIBBON = "ribbon",
 }
+
+// Modes that draw bond cylinders next to the atom spheres
+export const BOND_VIEW_MODES = [ViewMode.BALL_AND_STICK, ViewMode.LICORICE];
+// Modes drawn as meshes, rebuilt for every frame of a trajectory; the
+// sphere and bond instances of the others are only moved
+export const MESH_VIEW_MODES = [
+  ViewMode.LINES,
+  ViewMode.SURFACE,
+  ViewMode.RIBBON,
+];
 export interface AtomInfo {
   index: number;
+  serial: number; // Atom serial number from the file
+  recordType: "ATOM" | "HETATM";
   position: [number, number, number];
+  element: string; // Element symbol
   residueName: string; // Three letter amino acid code
   atomName: string; // Atom name (e.g., CA, CB, N, O)
+  altLoc: string; // Alternate location indicator
   residueNumber: number; // Residue sequence number
+  insertionCode: string; // Residue insertion code
   chain: string; // Chain identifier
+  occupancy: number;
+  tempFactor: number; // B-factor
+  charge: number; // Formal charge
+  secondaryStructure: SecondaryStructure | null; // null outside protein residues
+}
+export interface BackboneAtom {
+  atomIndex: number; // Index of the CA among the drawn atoms
+  position: [number, number, number];
+  oxygen: [number, number, number] | null; // Carbonyl O, orients the cartoon
+  oxygenIndex: number | null; // Of the O among the drawn atoms
+  residueIndex: number;
+  insertionCode: string;
+  chain: string;
+  secondaryStructure: "helix" | "sheet" | "coil";
+}
+
+export type NucleotideBase = "A" | "C" | "G" | "T" | "U";
+
+// One residue of a DNA or RNA chain, for the nucleic acid cartoon
+export interface NucleotideResidue {
+  atomIndex: number; // Index of the P (or C4') among the drawn atoms
+  position: [number, number, number]; // P, or C4' when there is no P
+  baseTip: [number, number, number] | null; // N1 of purines, N3 of pyrimidines
+  baseTipIndex: number | null; // Of the base tip among the drawn atoms
+  base: NucleotideBase | null; // null for modified nucleotides
+  residueIndex: number;
+  chain: string;
+}
+
+// Colouring of a representation (see utils/colorSchemes). "default" colours
+// atoms and surfaces by element and cartoons by secondary structure.
+export type ColorScheme =
+  | "default"
+  | "element"
+  | "chain"
+  | "residue-type"
+  | "secondary-structure"
+  | "rainbow"
+  | "b-factor"
+  | "occupancy"
+  | "hydrophobicity"
+  | "uniform";
+
+// One layer of the scene: the atoms matched by a selection expression
+// (see lib/structure/selection), drawn in one style
+export interface Representation {
+  id: number;
+  type: ViewMode;
+  selection: string;
+  colorScheme: ColorScheme;
+  color: [number, number, number]; // Used by the uniform scheme
+  opacity: number; // 1 is opaque
+  visible: boolean;
 }
+
+// Non-instanced geometry with per-vertex colour: lines (no normals),
+// surfaces and cartoons. Drawn indexed when there are indices.
+export interface MeshData {
+  positions: Float32Array;
+  normals: Float32Array | null;
+  colors: Float32Array;
+  indices: Uint32Array | null;
+  atomIndices: Int32Array; // Drawn atom of each vertex, -1 to keep its colour
+}
+
+// Geometry of one representation, ready for upload. Every colour records the
+// drawn atom it comes from, so colour schemes repaint a representation
+// without rebuilding it.
+export interface RepresentationData {
+  type: ViewMode;
+  instanceData: Float32Array | null; // Sphere instances, 7 floats each
+  instanceAtoms: Int32Array | null; // Drawn atom of each sphere
+  bondData: Float32Array | null; // Half-bond cylinder instances, 10 floats each
+  bondAtoms: Int32Array | null; // Drawn atom each half-bond is coloured by
+  mesh: MeshData | null;
+  opacity: number; // Of the representation, below 1 drawn translucent
+}
+
 export interface ViewerState {
   isLoading: boolean;
-  error: string | null;
   isDragging: boolean;
   lastMousePos: { x: number; y: number };
   mouseButton: number | null;
   isPanning: boolean;
-  viewMode: ViewMode;
+}
+
+// Diagnostics of the last file load, shown until dismissed
+export interface LoadReport {
+  fileName: string;
+  diagnostics: ParseDiagnostic[];
 }
 
 export interface CameraState {
@@ -35,24 +137,66 @@ export interface WebGLLocations {
     instancePosition: number;
     instanceColor: number;
     instanceRadius: number;
+    instanceEnd: number; // Second end point of cylinder instances
     color: number; // Added for ribbon mode
   };
   uniforms: {
     modelViewMatrix: WebGLUniformLocation | null;
     projectionMatrix: WebGLUniformLocation | null;
     viewMode: WebGLUniformLocation | null;
+    radiusScale: WebGLUniformLocation | null;
+    fixedRadius: WebGLUniformLocation | null;
+    opacity: WebGLUniformLocation | null;
+    normalPass: WebGLUniformLocation | null; // Ambient occlusion input
+    fogNear: WebGLUniformLocation | null;
+    fogFar: WebGLUniformLocation | null;
+    fogColor: WebGLUniformLocation | null;
+    celShading: WebGLUniformLocation | null;
   };
 }
 
+// WebGL1 extensions. All null on WebGL2, which has these features built in.
 export interface WebGLExtensions {
   instancedArrays: ANGLE_instanced_arrays | null;
+  fragDepth: EXT_frag_depth | null; // Needed by sphere impostors
+  elementIndexUint: OES_element_index_uint | null; // 32-bit mesh indices
+  depthTexture: WEBGL_depth_texture | null; // Needed by ambient occlusion
+}
+
+// Program drawing spheres as ray-cast impostor quads
+export interface ImpostorProgram {
+  program: WebGLProgram;
+  locations: {
+    attributes: {
+      corner: number;
+      instancePosition: number;
+      instanceColor: number;
+      instanceRadius: number;
+    };
+    uniforms: {
+      modelViewMatrix: WebGLUniformLocation | null;
+      projectionMatrix: WebGLUniformLocation | null;
+      radiusScale: WebGLUniformLocation | null;
+      fixedRadius: WebGLUniformLocation | null;
+      opacity: WebGLUniformLocation | null;
+      normalPass: WebGLUniformLocation | null;
+      fogNear: WebGLUniformLocation | null;
+      fogFar: WebGLUniformLocation | null;
+      fogColor: WebGLUniformLocation | null;
+      celShading: WebGLUniformLocation | null;
+    };
+  };
 }
 
 export interface WebGLSetup {
-  gl: WebGLRenderingContext | null;
+  gl: WebGLRenderingContext | null; // A WebGL2 context when available
   program: WebGLProgram | null;
   locations: WebGLLocations | null;
+  // null without EXT_frag_depth, or when the program does not build; spheres
+  // are then drawn as meshes
+  impostor: ImpostorProgram | null;
   extensions: WebGLExtensions;
+  cameraBuffer: WebGLBuffer | null; // Camera uniform block, WebGL2 only
 }
 
 export interface CameraControls {
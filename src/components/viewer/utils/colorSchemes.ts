@@ -0,0 +1,438 @@
+// src/components/viewer/utils/colorSchemes.ts
+//
+// Colour schemes map every drawn atom of a model to a colour. Representations
+// record the atom behind each of their colours (see RepresentationData), so
+// switching scheme only repaints the colour buffers.
+
+import { AtomInfo, ColorScheme, RepresentationData } from "../types";
+import { residueKey } from "@/lib/structure/secondaryStructure";
+import { SecondaryStructure } from "@/lib/structure/types";
+
+type Color = [number, number, number];
+
+export type ColorLegend =
+  | {
+      title: string;
+      kind: "categories";
+      entries: { label: string; color: Color }[];
+    }
+  | {
+      title: string;
+      kind: "gradient";
+      stops: Color[]; // Evenly spaced from min to max
+      min: string;
+      max: string;
+    };
+
+// Schemes that colour by an atom property; "default" keeps the colours the
+// geometry was built with and "uniform" uses the representation's colour
+export type AtomColorScheme = Exclude<ColorScheme, "default" | "uniform">;
+
+interface ColorSchemeDefinition {
+  label: string;
+  colorAtom: (atom: AtomInfo, context: SchemeContext) => Color;
+  legend: (atoms: AtomInfo[], context: SchemeContext) => ColorLegend;
+}
+
+// Per-model values some schemes are relative to
+interface SchemeContext {
+  chainIndex: Map<string, number>; // Chain ID to its position in file order
+  sequencePosition: Map<string, number>; // Residue key to 0..1 along its chain
+  tempFactorRange: [number, number];
+}
+
+// Atoms a scheme has no colour for (waters and ligands in residue-based
+// schemes)
+const NEUTRAL_COLOR: Color = [0.6, 0.6, 0.6];
+
+// Jmol element colours
+const ELEMENT_COLORS: Record<string, Color> = {
+  H: [1.0, 1.0, 1.0],
+  C: [0.56, 0.56, 0.56],
+  N: [0.19, 0.31, 0.97],
+  O: [1.0, 0.05, 0.05],
+  F: [0.56, 0.88, 0.31],
+  NA: [0.67, 0.36, 0.95],
+  MG: [0.54, 1.0, 0.0],
+  P: [1.0, 0.5, 0.0],
+  S: [1.0, 1.0, 0.19],
+  CL: [0.12, 0.94, 0.12],
+  K: [0.56, 0.25, 0.83],
+  CA: [0.24, 1.0, 0.0],
+  MN: [0.61, 0.48, 0.78],
+  FE: [0.88, 0.4, 0.2],
+  CO: [0.94, 0.56, 0.63],
+  NI: [0.31, 0.82, 0.31],
+  CU: [0.78, 0.5, 0.2],
+  ZN: [0.49, 0.5, 0.69],
+  SE: [1.0, 0.63, 0.0],
+  BR: [0.65, 0.16, 0.16],
+  I: [0.58, 0.0, 0.58],
+};
+const UNKNOWN_ELEMENT_COLOR: Color = [0.8, 0.8, 0.8];
+
+export function elementColor(element: string): Color {
+  return ELEMENT_COLORS[element.toUpperCase()] ?? UNKNOWN_ELEMENT_COLOR;
+}
+
+export const SECONDARY_STRUCTURE_COLORS: Record<SecondaryStructure, Color> = {
+  helix: [0.8, 0.3, 0.3], // Red
+  sheet: [0.3, 0.5, 0.8], // Blue
+  coil: [0.8, 0.8, 0.8], // Light gray
+};
+
+const CHAIN_COLORS: Color[] = [
+  [0.12, 0.47, 0.71],
+  [1.0, 0.5, 0.05],
+  [0.17, 0.63, 0.17],
+  [0.84, 0.15, 0.16],
+  [0.58, 0.4, 0.74],
+  [0.55, 0.34, 0.29],
+  [0.89, 0.47, 0.76],
+  [0.5, 0.5, 0.5],
+  [0.74, 0.74, 0.13],
+  [0.09, 0.75, 0.81],
+];
+
+const chainColor = (atom: AtomInfo, chainIndex: Map<string, number>): Color =>
+  CHAIN_COLORS[(chainIndex.get(atom.chain) ?? 0) % CHAIN_COLORS.length];
+
+const RESIDUE_TYPES: { label: string; color: Color; residues: string[] }[] = [
+  {
+    label: "Hydrophobic",
+    color: [0.95, 0.8, 0.35],
+    residues: ["ALA", "VAL", "LEU", "ILE", "MET", "PHE", "TRP", "MSE"],
+  },
+  {
+    label: "Polar",
+    color: [0.35, 0.8, 0.45],
+    residues: ["SER", "THR", "ASN", "GLN", "TYR"],
+  },
+  { label: "Acidic", color: [0.9, 0.25, 0.25], residues: ["ASP", "GLU"] },
+  {
+    label: "Basic",
+    color: [0.3, 0.45, 0.95],
+    residues: ["LYS", "ARG", "HIS"],
+  },
+  {
+    label: "Special",
+    color: [0.85, 0.55, 0.9],
+    residues: ["GLY", "PRO", "CYS"],
+  },
+  {
+    label: "Nucleotide",
+    color: [1.0, 0.6, 0.2],
+    residues: ["A", "C", "G", "T", "U", "DA", "DC", "DG", "DT", "DU"],
+  },
+];
+const RESIDUE_TYPE_BY_NAME = new Map(
+  RESIDUE_TYPES.flatMap((type) => type.residues.map((name) => [name, type]))
+);
+
+// Kyte-Doolittle hydropathy
+const HYDROPATHY: Record<string, number> = {
+  ILE: 4.5,
+  VAL: 4.2,
+  LEU: 3.8,
+  PHE: 2.8,
+  CYS: 2.5,
+  MET: 1.9,
+  ALA: 1.8,
+  GLY: -0.4,
+  THR: -0.7,
+  SER: -0.8,
+  TRP: -0.9,
+  TYR: -1.3,
+  PRO: -1.6,
+  HIS: -3.2,
+  GLU: -3.5,
+  GLN: -3.5,
+  ASP: -3.5,
+  ASN: -3.5,
+  LYS: -3.9,
+  ARG: -4.5,
+};
+
+// Blue through white to red, for B-factors and occupancies
+const BLUE_WHITE_RED: Color[] = [
+  [0.15, 0.3, 0.85],
+  [1.0, 1.0, 1.0],
+  [0.85, 0.15, 0.15],
+];
+// Hydrophilic teal through white to hydrophobic orange
+const HYDROPATHY_GRADIENT: Color[] = [
+  [0.1, 0.6, 0.7],
+  [1.0, 1.0, 1.0],
+  [0.95, 0.5, 0.1],
+];
+// Blue at the N-terminus to red at the C-terminus
+const RAINBOW: Color[] = [
+  [0.0, 0.0, 1.0],
+  [0.0, 1.0, 1.0],
+  [0.0, 1.0, 0.0],
+  [1.0, 1.0, 0.0],
+  [1.0, 0.0, 0.0],
+];
+
+// Linear interpolation between evenly spaced stops, t in 0..1
+function sampleGradient(stops: Color[], t: number): Color {
+  const position = Math.min(Math.max(t, 0), 1) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const fraction = position - index;
+  const [from, to] = [stops[index], stops[index + 1]];
+  return [0, 1, 2].map(
+    (channel) => from[channel] + (to[channel] - from[channel]) * fraction
+  ) as Color;
+}
+
+// Legend listing the categories present in the model, in order of appearance
+function categoryLegend(
+  title: string,
+  atoms: AtomInfo[],
+  category: (atom: AtomInfo) => string,
+  color: (atom: AtomInfo) => Color
+): ColorLegend {
+  const entries = new Map<string, Color>();
+  atoms.forEach((atom) => {
+    const label = category(atom);
+    if (!entries.has(label)) entries.set(label, color(atom));
+  });
+  return {
+    title,
+    kind: "categories",
+    entries: [...entries].map(([label, color]) => ({ label, color })),
+  };
+}
+
+const atomResidueKey = (atom: AtomInfo) =>
+  residueKey(atom.chain, atom.residueNumber, atom.insertionCode);
+
+export const COLOR_SCHEMES: Record<AtomColorScheme, ColorSchemeDefinition> = {
+  element: {
+    label: "Element",
+    colorAtom: (atom) => elementColor(atom.element),
+    legend: (atoms) =>
+      categoryLegend(
+        "Element",
+        atoms,
+        (atom) => atom.element,
+        (atom) => elementColor(atom.element)
+      ),
+  },
+  chain: {
+    label: "Chain",
+    colorAtom: (atom, { chainIndex }) => chainColor(atom, chainIndex),
+    legend: (atoms, { chainIndex }) =>
+      categoryLegend(
+        "Chain",
+        atoms,
+        (atom) => atom.chain || "(blank)",
+        (atom) => chainColor(atom, chainIndex)
+      ),
+  },
+  "residue-type": {
+    label: "Residue type",
+    colorAtom: (atom) =>
+      RESIDUE_TYPE_BY_NAME.get(atom.residueName)?.color ?? NEUTRAL_COLOR,
+    legend: (atoms) =>
+      categoryLegend(
+        "Residue type",
+        atoms,
+        (atom) => RESIDUE_TYPE_BY_NAME.get(atom.residueName)?.label ?? "Other",
+        (atom) =>
+          RESIDUE_TYPE_BY_NAME.get(atom.residueName)?.color ?? NEUTRAL_COLOR
+      ),
+  },
+  "secondary-structure": {
+    label: "Secondary structure",
+    colorAtom: (atom) =>
+      atom.secondaryStructure
+        ? SECONDARY_STRUCTURE_COLORS[atom.secondaryStructure]
+        : NEUTRAL_COLOR,
+    legend: (atoms) =>
+      categoryLegend(
+        "Secondary structure",
+        atoms,
+        (atom) => atom.secondaryStructure ?? "other",
+        (atom) =>
+          atom.secondaryStructure
+            ? SECONDARY_STRUCTURE_COLORS[atom.secondaryStructure]
+            : NEUTRAL_COLOR
+      ),
+  },
+  rainbow: {
+    label: "Rainbow (N→C)",
+    colorAtom: (atom, { sequencePosition }) => {
+      const position = sequencePosition.get(atomResidueKey(atom));
+      return position === undefined
+        ? NEUTRAL_COLOR
+        : sampleGradient(RAINBOW, position);
+    },
+    legend: () => ({
+      title: "Sequence",
+      kind: "gradient",
+      stops: RAINBOW,
+      min: "N-terminus",
+      max: "C-terminus",
+    }),
+  },
+  "b-factor": {
+    label: "B-factor",
+    colorAtom: (atom, { tempFactorRange: [min, max] }) =>
+      sampleGradient(
+        BLUE_WHITE_RED,
+        max > min ? (atom.tempFactor - min) / (max - min) : 0.5
+      ),
+    legend: (_, { tempFactorRange: [min, max] }) => ({
+      title: "B-factor (Å²)",
+      kind: "gradient",
+      stops: BLUE_WHITE_RED,
+      min: min.toFixed(1),
+      max: max.toFixed(1),
+    }),
+  },
+  occupancy: {
+    label: "Occupancy",
+    colorAtom: (atom) => sampleGradient(BLUE_WHITE_RED, atom.occupancy),
+    legend: () => ({
+      title: "Occupancy",
+      kind: "gradient",
+      stops: BLUE_WHITE_RED,
+      min: "0",
+      max: "1",
+    }),
+  },
+  hydrophobicity: {
+    label: "Hydrophobicity",
+    colorAtom: (atom) => {
+      const hydropathy = HYDROPATHY[atom.residueName];
+      return hydropathy === undefined
+        ? NEUTRAL_COLOR
+        : sampleGradient(HYDROPATHY_GRADIENT, (hydropathy + 4.5) / 9);
+    },
+    legend: () => ({
+      title: "Hydropathy (Kyte-Doolittle)",
+      kind: "gradient",
+      stops: HYDROPATHY_GRADIENT,
+      min: "-4.5 polar",
+      max: "4.5 apolar",
+    }),
+  },
+};
+
+function createSchemeContext(atoms: AtomInfo[]): SchemeContext {
+  const chainIndex = new Map<string, number>();
+  // Residue keys of each chain, in order
+  const chainResidues = new Map<string, Set<string>>();
+  let minTempFactor = Infinity;
+  let maxTempFactor = -Infinity;
+
+  atoms.forEach((atom) => {
+    if (!chainIndex.has(atom.chain)) {
+      chainIndex.set(atom.chain, chainIndex.size);
+    }
+    minTempFactor = Math.min(minTempFactor, atom.tempFactor);
+    maxTempFactor = Math.max(maxTempFactor, atom.tempFactor);
+
+    // Only polymer residues are placed along the sequence
+    if (atom.recordType !== "ATOM") return;
+    const residues = chainResidues.get(atom.chain) ?? new Set();
+    residues.add(atomResidueKey(atom));
+    chainResidues.set(atom.chain, residues);
+  });
+
+  const sequencePosition = new Map<string, number>();
+  chainResidues.forEach((residues) => {
+    [...residues].forEach((key, i) => {
+      sequencePosition.set(
+        key,
+        residues.size > 1 ? i / (residues.size - 1) : 0
+      );
+    });
+  });
+
+  return {
+    chainIndex,
+    sequencePosition,
+    tempFactorRange: atoms.length > 0 ? [minTempFactor, maxTempFactor] : [0, 0],
+  };
+}
+
+// Colour of every drawn atom under a scheme, 3 floats per atom
+export function computeAtomColors(
+  scheme: AtomColorScheme,
+  atoms: AtomInfo[]
+): Float32Array {
+  const { colorAtom } = COLOR_SCHEMES[scheme];
+  const context = createSchemeContext(atoms);
+  const colors = new Float32Array(atoms.length * 3);
+  atoms.forEach((atom, index) => {
+    colors.set(colorAtom(atom, context), index * 3);
+  });
+  return colors;
+}
+
+export function getColorLegend(
+  scheme: AtomColorScheme,
+  atoms: AtomInfo[]
+): ColorLegend {
+  return COLOR_SCHEMES[scheme].legend(atoms, createSchemeContext(atoms));
+}
+
+// Copy of a representation with its colours taken from per-atom colours.
+// Geometry arrays are shared with the original; vertices without an atom
+// keep their colour.
+export function applyAtomColors(
+  data: RepresentationData,
+  atomColors: Float32Array
+): RepresentationData {
+  const paint = (
+    array: Float32Array,
+    atoms: Int32Array,
+    stride: number,
+    offset: number
+  ) => {
+    const painted = array.slice();
+    atoms.forEach((atom, i) => {
+      if (atom < 0) return;
+      painted.set(
+        atomColors.subarray(atom * 3, atom * 3 + 3),
+        i * stride + offset
+      );
+    });
+    return painted;
+  };
+
+  return {
+    ...data,
+    instanceData:
+      data.instanceData &&
+      data.instanceAtoms &&
+      paint(data.instanceData, data.instanceAtoms, 7, 3),
+    bondData:
+      data.bondData &&
+      data.bondAtoms &&
+      paint(data.bondData, data.bondAtoms, 10, 6),
+    mesh: data.mesh && {
+      ...data.mesh,
+      colors: paint(data.mesh.colors, data.mesh.atomIndices, 3, 0),
+    },
+  };
+}
+
+// Colours as written by <input type="color">
+export const toHex = (color: Color) =>
+  "#" +
+  color
+    .map((value) =>
+      Math.round(value * 255)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("");
+
+export const fromHex = (hex: string): Color => [
+  parseInt(hex.slice(1, 3), 16) / 255,
+  parseInt(hex.slice(3, 5), 16) / 255,
+  parseInt(hex.slice(5, 7), 16) / 255,
+];
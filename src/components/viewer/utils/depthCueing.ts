@@ -0,0 +1,78 @@
+// src/components/viewer/utils/depthCueing.ts
+
+// Fog fading geometry into the background, from the camera target to
+// `distance` Å behind it
+export interface FogOptions {
+  enabled: boolean;
+  distance: number;
+}
+
+// Clipping planes `near` Å in front of and `far` Å behind the camera
+// target. A negative value puts the plane on the other side of the target.
+export interface ClippingSlab {
+  enabled: boolean;
+  near: number;
+  far: number;
+}
+
+export const DEFAULT_FOG_OPTIONS: FogOptions = {
+  enabled: false,
+  distance: 30,
+};
+
+export const DEFAULT_CLIPPING_SLAB: ClippingSlab = {
+  enabled: false,
+  near: 20,
+  far: 20,
+};
+
+// Furthest either plane of the slab can be moved from the target, in Å
+export const SLAB_LIMIT = 100;
+// Closest the two planes of the slab can come, in Å
+const MIN_SLAB_THICKNESS = 1;
+
+// Projection planes without a slab
+const NEAR_PLANE = 0.1;
+const FAR_PLANE = 1000.0;
+
+// Eye-space distances of the near and far projection planes, given the
+// distance of the camera target
+export function clippingPlanes(
+  targetDepth: number,
+  slab: ClippingSlab
+): [number, number] {
+  if (!slab.enabled) return [NEAR_PLANE, FAR_PLANE];
+
+  const near = Math.max(NEAR_PLANE, targetDepth - slab.near);
+  const far = Math.max(near + MIN_SLAB_THICKNESS, targetDepth + slab.far);
+  return [near, far];
+}
+
+// Eye-space distances where fog starts and where only fog remains;
+// equal while fog is off
+export function fogRange(
+  targetDepth: number,
+  fog: FogOptions
+): [number, number] {
+  if (!fog.enabled) return [0, 0];
+  return [targetDepth, targetDepth + fog.distance];
+}
+
+// Moves one plane of the slab, pushing the other one along when they would
+// come closer than the minimum thickness
+export function moveSlabPlane(
+  slab: ClippingSlab,
+  plane: "near" | "far",
+  value: number
+): ClippingSlab {
+  const clamped = Math.max(
+    MIN_SLAB_THICKNESS - SLAB_LIMIT,
+    Math.min(SLAB_LIMIT, value)
+  );
+  const other = plane === "near" ? "far" : "near";
+  return {
+    ...slab,
+    [plane]: clamped,
+    [other]: Math.max(slab[other], MIN_SLAB_THICKNESS - clamped),
+  };
+}
@@ -3,7 +3,7 @@
 export interface GeometryData {
   positions: Float32Array;
   normals: Float32Array;
-  indices: Uint16Array;
+  indices: Uint16Array | Uint32Array;
 }
 
 export function createSphereGeometry(
@@ -72,3 +72,88 @@ export function createSphereGeometry(
     indices: new Uint16Array(indices),
   };
 }
+
+// Open unit cylinder along +Y from y = 0 to y = 1, wound like the sphere.
+// The vertex shader stretches it between the two ends of a bond.
+export function createCylinderGeometry(segments: number = 16): GeometryData {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+
+  for (let ring = 0; ring <= 1; ring++) {
+    const y = 1 - ring;
+
+    for (let segment = 0; segment <= segments; segment++) {
+      const phi = (segment * 2 * Math.PI) / segments;
+      const x = Math.cos(phi);
+      const z = Math.sin(phi);
+
+      positions.push(x, y, z);
+      normals.push(x, 0, z);
+    }
+  }
+
+  for (let segment = 0; segment < segments; segment++) {
+    const first = segment;
+    const second = first + segments + 1;
+
+    indices.push(first, second, first + 1);
+    indices.push(second, second + 1, first + 1);
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    indices: new Uint16Array(indices),
+  };
+}
+
+// Range of a mesh's triangles drawn with 16-bit indices counted from
+// baseVertex
+export interface IndexChunk {
+  baseVertex: number;
+  offset: number; // First index of the range
+  count: number;
+}
+
+const MAX_SHORT_INDEX = 0xffff;
+
+// Rewrites 32-bit triangle indices for contexts without
+// OES_element_index_uint: consecutive triangles are grouped into chunks
+// spanning at most 65,536 vertices, and rebased on each chunk's first vertex.
+// Meshes are built ring by ring, so triangles only reach back a little and
+// a cartoon of any size needs few chunks.
+export function splitIndices(indices: Uint32Array): {
+  indices: Uint16Array;
+  chunks: IndexChunk[];
+} {
+  const rebased = new Uint16Array(indices.length);
+  const chunks: IndexChunk[] = [];
+  let chunk: IndexChunk | null = null;
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const a = indices[i];
+    const b = indices[i + 1];
+    const c = indices[i + 2];
+    const low = Math.min(a, b, c);
+    const high = Math.max(a, b, c);
+    if (high - low > MAX_SHORT_INDEX) {
+      throw new Error(`Triangle ${i / 3} spans too many vertices`);
+    }
+
+    if (
+      !chunk ||
+      low < chunk.baseVertex ||
+      high - chunk.baseVertex > MAX_SHORT_INDEX
+    ) {
+      chunk = { baseVertex: low, offset: i, count: 0 };
+      chunks.push(chunk);
+    }
+    rebased[i] = a - chunk.baseVertex;
+    rebased[i + 1] = b - chunk.baseVertex;
+    rebased[i + 2] = c - chunk.baseVertex;
+    chunk.count += 3;
+  }
+
+  return { indices: rebased, chunks };
+}
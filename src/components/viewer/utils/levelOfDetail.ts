@@ -0,0 +1,43 @@
+// src/components/viewer/utils/levelOfDetail.ts
+
+// Sampling of a cartoon tube: spline points between consecutive residues,
+// and vertices around each cross-section
+export interface TubeDetail {
+  segmentsPerResidue: number;
+  ringVertices: number;
+}
+
+// Tessellation of the instanced atom and bond meshes and of cartoons
+export interface DetailLevel {
+  sphereSegments: number; // Latitude and longitude bands of the atom mesh
+  cylinderSegments: number; // Sides of the bond mesh
+  tube: TubeDetail;
+}
+
+// From coarse to fine
+export const DETAIL_LEVELS: DetailLevel[] = [
+  {
+    sphereSegments: 8,
+    cylinderSegments: 6,
+    tube: { segmentsPerResidue: 4, ringVertices: 6 },
+  },
+  {
+    sphereSegments: 16,
+    cylinderSegments: 10,
+    tube: { segmentsPerResidue: 6, ringVertices: 8 },
+  },
+  {
+    sphereSegments: 32,
+    cylinderSegments: 16,
+    tube: { segmentsPerResidue: 8, ringVertices: 12 },
+  },
+];
+
+// Atom counts above which the next coarser level is used
+const ATOM_COUNT_LIMITS = [100000, 10000];
+
+// Finest level worth drawing for a model of this many atoms
+export function detailForAtomCount(atomCount: number): number {
+  const coarser = ATOM_COUNT_LIMITS.filter((limit) => atomCount > limit).length;
+  return DETAIL_LEVELS.length - 1 - coarser;
+}
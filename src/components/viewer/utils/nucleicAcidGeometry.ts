@@ -0,0 +1,200 @@
+import { NucleotideBase, NucleotideResidue } from "../types";
+import {
+  add,
+  catmullRomSpline,
+  catmullRomTangent,
+  cross,
+  dot,
+  normalize,
+  RibbonGeometry,
+  scale,
+  splitTrace,
+  subtract,
+} from "./ribbonGeometry";
+import { TubeDetail } from "./levelOfDetail";
+
+const BACKBONE_RADIUS = 0.5;
+const BACKBONE_COLOR = [1.0, 0.6, 0.2]; // Orange, like phosphorus
+const RUNG_RADIUS = 0.3;
+
+// Nucleotide colours of the NAKB/NDB convention
+const BASE_COLORS: Record<NucleotideBase, number[]> = {
+  A: [0.9, 0.2, 0.2], // Red
+  C: [0.95, 0.85, 0.2], // Yellow
+  G: [0.2, 0.75, 0.3], // Green
+  T: [0.25, 0.45, 0.9], // Blue
+  U: [0.3, 0.8, 0.85], // Cyan
+};
+const UNKNOWN_BASE_COLOR = [0.7, 0.7, 0.7];
+
+// Phosphates of consecutive nucleotides are about 6-7 Å apart
+const CHAIN_BREAK_DISTANCE = 8.0;
+
+// Nucleic acid cartoon: a tube through the phosphates of each chain, and a
+// rung from every phosphate to the base, pointing into the base pair
+export function createNucleicAcidGeometry(
+  nucleotides: NucleotideResidue[],
+  { segmentsPerResidue, ringVertices }: TubeDetail
+): RibbonGeometry {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+  const colors: number[] = [];
+  const atomIndices: number[] = [];
+
+  // Ring of vertices around center in the plane of side and up
+  const addRing = (
+    center: number[],
+    side: number[],
+    up: number[],
+    radius: number,
+    color: number[],
+    atomIndex: number,
+    connect: boolean
+  ) => {
+    const baseIndex = positions.length / 3;
+    for (let k = 0; k < ringVertices; k++) {
+      const angle = (k / ringVertices) * Math.PI * 2;
+      const normal = add(
+        scale(side, Math.cos(angle)),
+        scale(up, Math.sin(angle))
+      );
+      positions.push(...add(center, scale(normal, radius)));
+      normals.push(...normal);
+      colors.push(...color);
+      atomIndices.push(atomIndex);
+    }
+
+    if (!connect) return;
+    for (let k = 0; k < ringVertices; k++) {
+      const next = (k + 1) % ringVertices;
+      const a = baseIndex - ringVertices + k;
+      const b = baseIndex - ringVertices + next;
+      indices.push(a, b, baseIndex + k, b, baseIndex + next, baseIndex + k);
+    }
+  };
+
+  // Flat disc closing a tube end, facing along normal
+  const addCap = (
+    center: number[],
+    side: number[],
+    up: number[],
+    radius: number,
+    normal: number[],
+    color: number[],
+    atomIndex: number
+  ) => {
+    const centerIndex = positions.length / 3;
+    positions.push(...center);
+    normals.push(...normal);
+    colors.push(...color);
+    atomIndices.push(atomIndex);
+    for (let k = 0; k < ringVertices; k++) {
+      const angle = (k / ringVertices) * Math.PI * 2;
+      const offset = add(
+        scale(side, Math.cos(angle)),
+        scale(up, Math.sin(angle))
+      );
+      positions.push(...add(center, scale(offset, radius)));
+      normals.push(...normal);
+      colors.push(...color);
+      atomIndices.push(atomIndex);
+    }
+    // Counter-clockwise seen from the side the normal points to
+    const facesUp = dot(cross(side, up), normal) > 0;
+    for (let k = 0; k < ringVertices; k++) {
+      const a = centerIndex + 1 + k;
+      const b = centerIndex + 1 + ((k + 1) % ringVertices);
+      indices.push(centerIndex, ...(facesUp ? [a, b] : [b, a]));
+    }
+  };
+
+  // Any unit vector perpendicular to axis
+  const perpendicular = (axis: number[]) =>
+    normalize(cross(axis, Math.abs(axis[1]) < 0.99 ? [0, 1, 0] : [1, 0, 0]));
+
+  splitTrace(nucleotides, CHAIN_BREAK_DISTANCE).forEach((chain) => {
+    const count = chain.length;
+
+    // Backbone tube. The cross-section frame is carried along the spline
+    // (parallel transport), so the tube never twists.
+    if (count > 1) {
+      let side: number[] | null = null;
+      let up: number[] = [];
+      for (let i = 0; i < count - 1; i++) {
+        const p0 = chain[Math.max(i - 1, 0)].position;
+        const p1 = chain[i].position;
+        const p2 = chain[i + 1].position;
+        const p3 = chain[Math.min(i + 2, count - 1)].position;
+
+        const samples =
+          i === count - 2 ? segmentsPerResidue + 1 : segmentsPerResidue;
+        for (let j = 0; j < samples; j++) {
+          const t = j / segmentsPerResidue;
+          const center = catmullRomSpline(p0, p1, p2, p3, t);
+          const tangent = normalize(catmullRomTangent(p0, p1, p2, p3, t));
+
+          side = side
+            ? normalize(subtract(side, scale(tangent, dot(side, tangent))))
+            : perpendicular(tangent);
+          up = cross(tangent, side);
+          const { atomIndex } = chain[t < 0.5 ? i : i + 1];
+
+          if (i === 0 && j === 0) {
+            addCap(
+              center,
+              side,
+              up,
+              BACKBONE_RADIUS,
+              scale(tangent, -1),
+              BACKBONE_COLOR,
+              atomIndex
+            );
+          }
+          addRing(
+            center,
+            side,
+            up,
+            BACKBONE_RADIUS,
+            BACKBONE_COLOR,
+            atomIndex,
+            i > 0 || j > 0
+          );
+          if (i === count - 2 && j === samples - 1) {
+            addCap(
+              center,
+              side,
+              up,
+              BACKBONE_RADIUS,
+              tangent,
+              BACKBONE_COLOR,
+              atomIndex
+            );
+          }
+        }
+      }
+    }
+
+    // Base rungs
+    chain.forEach(({ atomIndex, position, baseTip, base }) => {
+      if (!baseTip) return;
+      const axis = normalize(subtract(baseTip, position));
+      if (dot(axis, axis) === 0) return;
+
+      const side = perpendicular(axis);
+      const up = cross(axis, side);
+      const color = base ? BASE_COLORS[base] : UNKNOWN_BASE_COLOR;
+      addRing(position, side, up, RUNG_RADIUS, color, atomIndex, false);
+      addRing(baseTip, side, up, RUNG_RADIUS, color, atomIndex, true);
+      addCap(baseTip, side, up, RUNG_RADIUS, axis, color, atomIndex);
+    });
+  });
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    indices: new Uint32Array(indices),
+    colors: new Float32Array(colors),
+    atomIndices: new Int32Array(atomIndices),
+  };
+}
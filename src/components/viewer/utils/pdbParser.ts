@@ -1,167 +1,784 @@
-import { AtomInfo } from "../types";
+import {
+  AtomInfo,
+  BackboneAtom,
+  BOND_VIEW_MODES,
+  NucleotideBase,
+  NucleotideResidue,
+  Representation,
+  RepresentationData,
+  ViewMode,
+} from "../types";
+import { parsePdb } from "@/lib/pdb/parser";
+import {
+  assignSecondaryStructureFromRecords,
+  hasSecondaryStructureRecords,
+  residueKey,
+} from "@/lib/structure/secondaryStructure";
+import { computeDssp, dsspToSecondaryStructure } from "@/lib/structure/dssp";
+import { perceiveBonds } from "@/lib/structure/bonds";
+import {
+  computeMolecularSurface,
+  SurfaceOptions,
+} from "@/lib/structure/surface";
+import { selectAtoms, selectionUsesPositions } from "@/lib/structure/selection";
+import { topologyReferences } from "@/lib/structure/topology";
+import {
+  SecondaryStructure,
+  Structure,
+  StructureAtom,
+  StructureBond,
+  StructureModel,
+} from "@/lib/structure/types";
+import { createNucleicAcidGeometry } from "./nucleicAcidGeometry";
+import { createRibbonGeometry, mergeRibbonGeometries } from "./ribbonGeometry";
+import { elementColor } from "./colorSchemes";
+import { TubeDetail } from "./levelOfDetail";
 
-export function parsePdbLine(line: string): {
-  position: [number, number, number];
-  element: string;
-  residueName: string;
-  atomName: string;
-  residueNumber: number;
-  chain: string;
-} | null {
-  if (!line.trim().startsWith("ATOM")) {
-    return null;
+// Prefer the deposited HELIX/SHEET records; models, MD snapshots and
+// predictions usually have none, so compute DSSP for those
+function getSecondaryStructure(
+  structure: Structure,
+  atoms: StructureAtom[]
+): Map<string, SecondaryStructure> {
+  if (hasSecondaryStructureRecords(structure)) {
+    return assignSecondaryStructureFromRecords(structure, atoms);
   }
 
-  try {
-    const element = line.slice(76, 78).trim() || line.slice(12, 14).trim();
-    const atomName = line.slice(12, 16).trim();
-    const residueName = line.slice(17, 20).trim();
-    const chain = line.slice(21, 22).trim();
-    const residueNumber = parseInt(line.slice(22, 26).trim());
-    const x = parseFloat(line.slice(30, 38).trim());
-    const y = parseFloat(line.slice(38, 46).trim());
-    const z = parseFloat(line.slice(46, 54).trim());
-    const position: [number, number, number] = [x, y, z];
+  console.log("No HELIX/SHEET records, assigned secondary structure by DSSP");
+  return getDsspSecondaryStructure(atoms);
+}
+
+function getDsspSecondaryStructure(
+  atoms: StructureAtom[]
+): Map<string, SecondaryStructure> {
+  const assignment = new Map<string, SecondaryStructure>();
+  computeDssp(atoms).forEach((code, key) => {
+    assignment.set(key, dsspToSecondaryStructure(code));
+  });
+  return assignment;
+}
+
+export function parseAtomsWithMetadata(pdbContent: string) {
+  return extractAtomsWithMetadata(parsePdb(pdbContent));
+}
+
+// Drawn atoms of each model's atom list, shared by every caller
+const drawnAtomCache = new WeakMap<StructureAtom[], StructureAtom[]>();
+
+// One alternate location is drawn per residue, otherwise disordered side
+// chains render as overlapping copies. It is the residue's most occupied
+// one, the first seen on a tie, so residues whose conformers are labelled
+// B and C (or differ from other residues) keep their atoms.
+function selectDrawnAtoms(atoms: StructureAtom[]): StructureAtom[] {
+  const cached = drawnAtomCache.get(atoms);
+  if (cached) return cached;
+
+  const key = (atom: StructureAtom) =>
+    residueKey(atom.chainId, atom.residueNumber, atom.insertionCode);
+  const primaryAltLocs = new Map<
+    string,
+    { altLoc: string; occupancy: number }
+  >();
+  atoms.forEach((atom) => {
+    const { altLoc, occupancy } = atom;
+    if (altLoc === "") return;
+    const residue = key(atom);
+    const primary = primaryAltLocs.get(residue);
+    if (!primary || occupancy > primary.occupancy) {
+      primaryAltLocs.set(residue, { altLoc, occupancy });
+    }
+  });
+
+  const drawn = atoms.filter(
+    (atom) =>
+      atom.altLoc === "" ||
+      atom.altLoc === primaryAltLocs.get(key(atom))?.altLoc
+  );
+  drawnAtomCache.set(atoms, drawn);
+  return drawn;
+}
+
+function pushSphereInstance(renderData: number[], atom: StructureAtom) {
+  const { position, element } = atom;
+  const radius = getAtomRadius(element);
+  const color = elementColor(element);
+
+  renderData.push(
+    position[0],
+    position[1],
+    position[2], // position (3 floats)
+    color[0],
+    color[1],
+    color[2], // color (3 floats)
+    radius // radius (1 float)
+  );
+}
+
+// Sphere instance data for one model, without metadata or secondary
+// structure. Used to overlay the other models of an ensemble.
+export function extractModelRenderData(
+  structure: Structure,
+  modelIndex: number
+): Float32Array {
+  const model = structure.models[modelIndex];
+  if (!model) return new Float32Array(0);
+
+  const renderData: number[] = [];
+  selectDrawnAtoms(model.atoms).forEach((atom) =>
+    pushSphereInstance(renderData, atom)
+  );
+  return new Float32Array(renderData);
+}
+
+// Stick radius of ball-and-stick bonds, in Å
+const BOND_RADIUS = 0.15;
+
+// Topology reference of each model (see lib/structure/topology)
+const topologyCache = new WeakMap<Structure, number[]>();
+
+// Index of the first model with the same atoms as the given one. Frames of
+// a trajectory share its metadata, bonds, selections and representations,
+// and only move their atoms.
+export function getTopologyReference(
+  structure: Structure,
+  modelIndex: number
+): number {
+  let references = topologyCache.get(structure);
+  if (!references) {
+    references = topologyReferences(structure);
+    topologyCache.set(structure, references);
+  }
+  return references[modelIndex] ?? modelIndex;
+}
+
+// Bonds are perceived once per topology and shared by every representation
+// and every frame
+const bondCache = new WeakMap<StructureModel, StructureBond[]>();
+
+function getModelBonds(
+  structure: Structure,
+  modelIndex: number
+): StructureBond[] {
+  const referenceIndex = getTopologyReference(structure, modelIndex);
+  const reference = structure.models[referenceIndex];
+  let bonds = bondCache.get(reference);
+  if (!bonds) {
+    bonds = perceiveBonds(structure, referenceIndex);
+    bondCache.set(reference, bonds);
+  }
+  return bonds;
+}
+
+// Selection masks of the drawn atoms by expression, once per topology;
+// "within" depends on the coordinates, so it is kept per model
+const maskCache = new WeakMap<StructureModel, Map<string, Uint8Array>>();
+
+function getSelectionMask(
+  structure: Structure,
+  modelIndex: number,
+  expression: string
+): Uint8Array {
+  const model =
+    structure.models[
+      selectionUsesPositions(expression)
+        ? modelIndex
+        : getTopologyReference(structure, modelIndex)
+    ];
+  if (!model) return new Uint8Array(0);
+
+  let masks = maskCache.get(model);
+  if (!masks) {
+    masks = new Map();
+    maskCache.set(model, masks);
+  }
+  let mask = masks.get(expression);
+  if (!mask) {
+    mask = selectAtoms(selectDrawnAtoms(model.atoms), expression);
+    masks.set(expression, mask);
+  }
+  return mask;
+}
+
+// Each bond is drawn as two half-length cylinders, coloured by the atom at
+// their outer end, the first atom's half first. Colours are read from the
+// model's sphere instance data (as returned by extractAtomsWithMetadata), so
+// bonds always match their atoms. Instances are start (3), end (3), color
+// (3), radius (1), and atomIndices holds the drawn atom each one is coloured
+// by. With a selection mask, only bonds between two selected atoms are drawn.
+export function extractBondRenderData(
+  structure: Structure,
+  modelIndex: number,
+  instanceData: Float32Array,
+  mask?: Uint8Array
+): { instances: Float32Array; atomIndices: Int32Array } {
+  const model = structure.models[modelIndex];
+  if (!model) {
+    return { instances: new Float32Array(0), atomIndices: new Int32Array(0) };
+  }
+
+  const instanceIndices = new Map<StructureAtom, number>();
+  selectDrawnAtoms(model.atoms).forEach((atom, index) =>
+    instanceIndices.set(atom, index)
+  );
+  const renderData: number[] = [];
+  const atomIndices: number[] = [];
+
+  getModelBonds(structure, modelIndex).forEach(({ atom1, atom2 }) => {
+    const first = model.atoms[atom1];
+    const second = model.atoms[atom2];
+    const firstIndex = instanceIndices.get(first);
+    const secondIndex = instanceIndices.get(second);
+    if (firstIndex === undefined || secondIndex === undefined) return;
+    if (mask && !(mask[firstIndex] && mask[secondIndex])) return;
+
+    const middle = [0, 1, 2].map(
+      (axis) => (first.position[axis] + second.position[axis]) / 2
+    );
+    [[first, firstIndex] as const, [second, secondIndex] as const].forEach(
+      ([{ position }, index]) => {
+        const color = instanceData.subarray(index * 7 + 3, index * 7 + 6);
+        renderData.push(...position, ...middle, ...color, BOND_RADIUS);
+        atomIndices.push(index);
+      }
+    );
+  });
+
+  return {
+    instances: new Float32Array(renderData),
+    atomIndices: new Int32Array(atomIndices),
+  };
+}
 
+// Positions of the drawn atoms of a model, 3 floats per atom in instance
+// order: all that changes between frames with the same topology
+export function extractDrawnPositions(
+  structure: Structure,
+  modelIndex: number
+): Float32Array {
+  const drawnAtoms = selectDrawnAtoms(
+    structure.models[modelIndex]?.atoms ?? []
+  );
+  const positions = new Float32Array(drawnAtoms.length * 3);
+  drawnAtoms.forEach(({ position }, index) =>
+    positions.set(position, index * 3)
+  );
+  return positions;
+}
+
+// Copy of sphere (stride 7) or half-bond (stride 10) instances, each starting
+// at the new position of its atom. Colours and radii are kept.
+function moveInstances(
+  instances: Float32Array,
+  stride: number,
+  atomIndices: ArrayLike<number>,
+  positions: Float32Array
+): Float32Array {
+  const moved = instances.slice();
+  for (let i = 0; i < atomIndices.length; i++) {
+    const atom = atomIndices[i] * 3;
+    moved.set(positions.subarray(atom, atom + 3), i * stride);
+  }
+  return moved;
+}
+
+// Sphere and bond instances of a representation with its atoms moved to the
+// positions of another frame (from extractDrawnPositions). Half-bonds come
+// in pairs (see extractBondRenderData), both ending at their new midpoint.
+export function moveRepresentationInstances(
+  data: RepresentationData,
+  positions: Float32Array
+): { instanceData: Float32Array | null; bondData: Float32Array | null } {
+  const instanceData =
+    data.instanceData && data.instanceAtoms
+      ? moveInstances(data.instanceData, 7, data.instanceAtoms, positions)
+      : data.instanceData;
+  if (!data.bondData || !data.bondAtoms) {
+    return { instanceData, bondData: data.bondData };
+  }
+
+  const bondData = moveInstances(data.bondData, 10, data.bondAtoms, positions);
+  for (let i = 0; i < data.bondAtoms.length; i += 2) {
+    const first = data.bondAtoms[i] * 3;
+    const second = data.bondAtoms[i + 1] * 3;
+    for (let axis = 0; axis < 3; axis++) {
+      const middle = (positions[first + axis] + positions[second + axis]) / 2;
+      bondData[i * 10 + 3 + axis] = middle;
+      bondData[(i + 1) * 10 + 3 + axis] = middle;
+    }
+  }
+  return { instanceData, bondData };
+}
+
+// Half-length of the three axis-aligned strokes marking unbonded atoms
+// (ions, waters without hydrogens) in lines mode, in Å
+const LINE_CROSS_SIZE = 0.25;
+
+// Line segment vertices for lines mode: every bond becomes two segments
+// meeting at its midpoint, coloured like bond cylinders, and unbonded atoms
+// become small crosses. Written straight into typed arrays so assemblies
+// with millions of atoms do not build huge intermediate arrays. A selection
+// mask limits both to the selected atoms.
+export function extractLineRenderData(
+  structure: Structure,
+  modelIndex: number,
+  instanceData: Float32Array,
+  mask?: Uint8Array
+): { positions: Float32Array; colors: Float32Array; atomIndices: Int32Array } {
+  const model = structure.models[modelIndex];
+  if (!model) {
     return {
-      position,
-      element,
-      residueName,
-      atomName,
-      residueNumber,
-      chain,
+      positions: new Float32Array(0),
+      colors: new Float32Array(0),
+      atomIndices: new Int32Array(0),
     };
-  } catch (error) {
-    console.error("Error parsing PDB line:", error, "Line:", line);
-    return null;
   }
+
+  const drawnAtoms = selectDrawnAtoms(model.atoms);
+  const instanceIndices = new Map<StructureAtom, number>();
+  drawnAtoms.forEach((atom, index) => instanceIndices.set(atom, index));
+
+  const segments: [number, number][] = [];
+  const bonded = new Uint8Array(drawnAtoms.length);
+  getModelBonds(structure, modelIndex).forEach(({ atom1, atom2 }) => {
+    const first = instanceIndices.get(model.atoms[atom1]);
+    const second = instanceIndices.get(model.atoms[atom2]);
+    if (first === undefined || second === undefined) return;
+    if (mask && !(mask[first] && mask[second])) return;
+    segments.push([first, second]);
+    bonded[first] = bonded[second] = 1;
+  });
+  if (mask) {
+    // Unselected atoms get no cross
+    mask.forEach((selected, index) => {
+      if (!selected) bonded[index] = 1;
+    });
+  }
+  const unbondedCount = bonded.length - bonded.reduce((a, b) => a + b, 0);
+
+  // 4 vertices per bond, 6 per cross
+  const vertexCount = segments.length * 4 + unbondedCount * 6;
+  const positions = new Float32Array(vertexCount * 3);
+  const colors = new Float32Array(vertexCount * 3);
+  const atomIndices = new Int32Array(vertexCount);
+  let offset = 0;
+  const pushVertex = (position: ArrayLike<number>, atomIndex: number) => {
+    for (let axis = 0; axis < 3; axis++) {
+      positions[offset + axis] = position[axis];
+      colors[offset + axis] = instanceData[atomIndex * 7 + 3 + axis];
+    }
+    atomIndices[offset / 3] = atomIndex;
+    offset += 3;
+  };
+
+  segments.forEach(([first, second]) => {
+    const start = drawnAtoms[first].position;
+    const end = drawnAtoms[second].position;
+    const middle = [0, 1, 2].map((axis) => (start[axis] + end[axis]) / 2);
+    pushVertex(start, first);
+    pushVertex(middle, first);
+    pushVertex(middle, second);
+    pushVertex(end, second);
+  });
+
+  drawnAtoms.forEach(({ position }, index) => {
+    if (bonded[index]) return;
+    for (let axis = 0; axis < 3; axis++) {
+      const start = [...position];
+      const end = [...position];
+      start[axis] -= LINE_CROSS_SIZE;
+      end[axis] += LINE_CROSS_SIZE;
+      pushVertex(start, index);
+      pushVertex(end, index);
+    }
+  });
+
+  return { positions, colors, atomIndices };
 }
 
-function determineSecondaryStructure(
-  residueName: string,
-  residueIndex: number,
-  backbone: Map<number, AtomInfo>
-): "helix" | "sheet" | "coil" {
-  // For now, using a simple heuristic based on residue type
-  // In a real implementation, you'd want to use HELIX/SHEET records from the PDB file
-  const commonHelixResidues = new Set(["ALA", "LEU", "GLU", "LYS"]);
-  const commonSheetResidues = new Set(["VAL", "ILE", "THR"]);
+// Molecular surface triangles of the drawn (and, with a mask, selected)
+// atoms, each vertex coloured like the atom closest to it
+export function extractSurfaceRenderData(
+  structure: Structure,
+  modelIndex: number,
+  instanceData: Float32Array,
+  options: SurfaceOptions,
+  mask?: Uint8Array
+): {
+  positions: Float32Array;
+  normals: Float32Array;
+  colors: Float32Array;
+  atomIndices: Int32Array;
+} {
+  const drawnAtoms = selectDrawnAtoms(
+    structure.models[modelIndex]?.atoms ?? []
+  );
+  const instanceIndices = drawnAtoms
+    .map((_, index) => index)
+    .filter((index) => !mask || mask[index]);
+  const surface = computeMolecularSurface(
+    instanceIndices.map((index) => drawnAtoms[index]),
+    options
+  );
 
-  // Check surrounding residues
-  const prevResidue = backbone.get(residueIndex - 1);
-  const nextResidue = backbone.get(residueIndex + 1);
+  const colors = new Float32Array(surface.positions.length);
+  const atomIndices = surface.atomIndices.map(
+    (atomIndex) => instanceIndices[atomIndex]
+  );
+  atomIndices.forEach((index, vertex) => {
+    colors.set(instanceData.subarray(index * 7 + 3, index * 7 + 6), vertex * 3);
+  });
 
-  if (commonHelixResidues.has(residueName)) {
-    return "helix";
-  } else if (commonSheetResidues.has(residueName)) {
-    return "sheet";
+  if (surface.spacing > options.resolution) {
+    console.warn(
+      "Surface grid too large, spacing increased to",
+      surface.spacing
+    );
   }
+  console.log("Surface computed", {
+    type: options.type,
+    triangles: surface.positions.length / 9,
+    spacing: surface.spacing,
+  });
+  return {
+    positions: surface.positions,
+    normals: surface.normals,
+    colors,
+    atomIndices,
+  };
+}
 
-  return "coil";
+// Base of a standard nucleotide ("DA", "A", ...); modified nucleotides have
+// other residue names
+function nucleotideBase(residueName: string): NucleotideBase | null {
+  const match = /^D?([ACGTU])$/.exec(residueName.trim());
+  return match ? (match[1] as NucleotideBase) : null;
 }
 
-export function parseAtomsWithMetadata(pdbContent: string): {
+// Atoms of a nucleotide that place its cartoon
+const NUCLEOTIDE_ATOM_NAMES = new Set(["P", "C4'", "N1", "N3"]);
+
+export function extractAtomsWithMetadata(
+  structure: Structure,
+  modelIndex: number = 0
+): {
   renderData: Float32Array;
   atomsMetadata: AtomInfo[];
-  backboneAtoms?: {
-    position: [number, number, number];
-    residueIndex: number;
-    secondaryStructure: "helix" | "sheet" | "coil";
-  }[];
+  backboneAtoms?: BackboneAtom[];
+  nucleotides?: NucleotideResidue[];
 } {
   const atoms: number[] = [];
   const atomsMetadata: AtomInfo[] = [];
-  const backboneMap = new Map<number, AtomInfo>();
-  const backboneAtoms: {
-    position: [number, number, number];
-    residueIndex: number;
-    secondaryStructure: "helix" | "sheet" | "coil";
-  }[] = [];
+  // Backbone atoms by residue key, in file order
+  const backboneMap = new Map<string, AtomInfo>();
+  const oxygenMap = new Map<string, AtomInfo>();
+  const backboneAtoms: BackboneAtom[] = [];
+  // Nucleotide atoms by residue key, in file order
+  const nucleotideMap = new Map<
+    string,
+    { atom: StructureAtom; atoms: Map<string, AtomInfo> }
+  >();
+  const modelAtoms = structure.models[modelIndex]?.atoms ?? [];
 
   let index = 0;
-  const lines = pdbContent.split(/\r?\n/);
 
   // First pass: collect all atoms and identify backbone atoms
-  lines.forEach((line) => {
-    const atomData = parsePdbLine(line.trim());
-    if (atomData) {
-      const { position, element, residueName, atomName, residueNumber, chain } =
-        atomData;
-      const [radius, color] = getAtomProperties(element);
-
-      // Store rendering data for spheres
-      atoms.push(
-        position[0],
-        position[1],
-        position[2], // position (3 floats)
-        color[0],
-        color[1],
-        color[2], // color (3 floats)
-        radius // radius (1 float)
-      );
+  selectDrawnAtoms(modelAtoms).forEach((atom) => {
+    const { position, element, residueName, residueNumber } = atom;
 
-      const atomInfo = {
-        index,
-        position,
-        residueName,
-        atomName,
-        residueNumber,
-        chain,
-      };
+    // Store rendering data for spheres
+    pushSphereInstance(atoms, atom);
 
-      atomsMetadata.push(atomInfo);
+    const atomInfo: AtomInfo = {
+      index,
+      serial: atom.serial,
+      recordType: atom.recordType,
+      position,
+      element,
+      residueName,
+      atomName: atom.name,
+      altLoc: atom.altLoc,
+      residueNumber,
+      insertionCode: atom.insertionCode,
+      chain: atom.chainId,
+      occupancy: atom.occupancy,
+      tempFactor: atom.tempFactor,
+      charge: atom.charge,
+      secondaryStructure: null, // Assigned with the backbone below
+    };
 
-      // Store backbone atoms (CA - alpha carbon) for ribbon generation
-      if (atomName === "CA") {
-        backboneMap.set(residueNumber, atomInfo);
-      }
+    atomsMetadata.push(atomInfo);
+
+    // Store backbone atoms (CA - alpha carbon) for ribbon generation. Keys
+    // include the chain and insertion code, so chains with overlapping
+    // numbering and inserted residues (52A, 52B) are all kept.
+    const key = residueKey(atom.chainId, residueNumber, atom.insertionCode);
+    if (atom.recordType === "ATOM" && atom.name === "CA") {
+      backboneMap.set(key, atomInfo);
+    } else if (atom.recordType === "ATOM" && atom.name === "O") {
+      oxygenMap.set(key, atomInfo);
+    }
 
-      index++;
+    if (atom.recordType === "ATOM" && NUCLEOTIDE_ATOM_NAMES.has(atom.name)) {
+      const nucleotide = nucleotideMap.get(key) ?? { atom, atoms: new Map() };
+      nucleotide.atoms.set(atom.name, atomInfo);
+      nucleotideMap.set(key, nucleotide);
     }
+
+    index++;
   });
 
-  // Second pass: determine secondary structure and create backbone array
-  for (const [residueNumber, atom] of backboneMap) {
-    const secondaryStructure = determineSecondaryStructure(
-      atom.residueName,
-      residueNumber,
-      backboneMap
-    );
+  // Second pass: look up secondary structure and create backbone array
+  const secondaryStructure = getSecondaryStructure(
+    structure,
+    selectDrawnAtoms(modelAtoms)
+  );
 
+  // File order is chain order, and keeps inserted residues in sequence
+  const residueStructure = new Map<string, SecondaryStructure>();
+  for (const [key, atom] of backboneMap) {
+    residueStructure.set(key, secondaryStructure.get(key) ?? "coil");
+    const oxygen = oxygenMap.get(key);
     backboneAtoms.push({
+      atomIndex: atom.index,
       position: atom.position,
-      residueIndex: residueNumber,
-      secondaryStructure,
+      oxygen: oxygen?.position ?? null,
+      oxygenIndex: oxygen?.index ?? null,
+      residueIndex: atom.residueNumber,
+      insertionCode: atom.insertionCode,
+      chain: atom.chain,
+      secondaryStructure: residueStructure.get(key)!,
     });
   }
+  atomsMetadata.forEach((info) => {
+    info.secondaryStructure =
+      residueStructure.get(
+        residueKey(info.chain, info.residueNumber, info.insertionCode)
+      ) ?? null;
+  });
 
-  // Sort backbone atoms by residue index to ensure correct order
-  backboneAtoms.sort((a, b) => a.residueIndex - b.residueIndex);
+  // Nucleic acid trace through the phosphates; the 5' residue usually has
+  // none, so fall back to C4'. Rungs end at the base's pairing nitrogen.
+  const nucleotides: NucleotideResidue[] = [];
+  nucleotideMap.forEach(({ atom, atoms: named }) => {
+    const trace = named.get("P") ?? named.get("C4'");
+    if (!trace) return;
+
+    const base = nucleotideBase(atom.residueName);
+    const tipName = base === "A" || base === "G" ? "N1" : "N3";
+    const baseTip = base ? named.get(tipName) : undefined;
+    nucleotides.push({
+      atomIndex: trace.index,
+      position: trace.position,
+      baseTip: baseTip?.position ?? null,
+      baseTipIndex: baseTip?.index ?? null,
+      base,
+      residueIndex: atom.residueNumber,
+      chain: atom.chainId,
+    });
+  });
 
   return {
     renderData: new Float32Array(atoms),
     atomsMetadata,
     backboneAtoms: backboneAtoms.length > 0 ? backboneAtoms : undefined,
+    nucleotides: nucleotides.length > 0 ? nucleotides : undefined,
+  };
+}
+
+// The data of a model moved to the positions of a frame with the same
+// topology (from extractDrawnPositions). Metadata is shared; the sphere
+// instances and the atoms guiding the cartoons move. Without HELIX/SHEET
+// records, secondary structure is assigned again by DSSP on the frame's
+// own atoms, and only atoms whose assignment changed get new metadata.
+export function moveModelData(
+  structure: Structure,
+  modelIndex: number,
+  modelData: ReturnType<typeof extractAtomsWithMetadata>,
+  positions: Float32Array
+): ReturnType<typeof extractAtomsWithMetadata> {
+  const { renderData, atomsMetadata, backboneAtoms, nucleotides } = modelData;
+  const frameStructure = hasSecondaryStructureRecords(structure)
+    ? null
+    : getDsspSecondaryStructure(
+        selectDrawnAtoms(structure.models[modelIndex]?.atoms ?? [])
+      );
+  // Residues of the cartoon, coil where DSSP assigns nothing
+  const residueStructure = new Map<string, SecondaryStructure>();
+  if (frameStructure) {
+    backboneAtoms?.forEach(({ chain, residueIndex, insertionCode }) => {
+      const key = residueKey(chain, residueIndex, insertionCode);
+      residueStructure.set(key, frameStructure.get(key) ?? "coil");
+    });
+  }
+  const positionOf = (index: number): [number, number, number] => [
+    positions[index * 3],
+    positions[index * 3 + 1],
+    positions[index * 3 + 2],
+  ];
+  const atomIndices = Int32Array.from(
+    { length: renderData.length / 7 },
+    (_, index) => index
+  );
+
+  return {
+    ...modelData,
+    renderData: moveInstances(renderData, 7, atomIndices, positions),
+    atomsMetadata: frameStructure
+      ? atomsMetadata.map((info) => {
+          const secondaryStructure =
+            residueStructure.get(
+              residueKey(info.chain, info.residueNumber, info.insertionCode)
+            ) ?? null;
+          return secondaryStructure === info.secondaryStructure
+            ? info
+            : { ...info, secondaryStructure };
+        })
+      : atomsMetadata,
+    backboneAtoms: backboneAtoms?.map((atom) => ({
+      ...atom,
+      position: positionOf(atom.atomIndex),
+      oxygen: atom.oxygenIndex === null ? null : positionOf(atom.oxygenIndex),
+      secondaryStructure:
+        residueStructure.get(
+          residueKey(atom.chain, atom.residueIndex, atom.insertionCode)
+        ) ?? atom.secondaryStructure,
+    })),
+    nucleotides: nucleotides?.map((residue) => ({
+      ...residue,
+      position: positionOf(residue.atomIndex),
+      baseTip:
+        residue.baseTipIndex === null ? null : positionOf(residue.baseTipIndex),
+    })),
+  };
+}
+
+// Geometry of one representation: its selection applied to the drawn atoms
+// of the model, in the representation's style. modelData is the model's
+// extractAtomsWithMetadata result, whose instance data supplies the element
+// colours; cartoons are coloured by secondary structure. Colour schemes are
+// applied afterwards (utils/colorSchemes). tubeDetail samples cartoons. An
+// invalid selection draws nothing.
+export function extractRepresentationData(
+  structure: Structure,
+  modelIndex: number,
+  modelData: ReturnType<typeof extractAtomsWithMetadata>,
+  representation: Representation,
+  surfaceOptions: SurfaceOptions,
+  tubeDetail: TubeDetail
+): RepresentationData {
+  const { type } = representation;
+  const instanceData = modelData.renderData;
+  const atomCount = instanceData.length / 7;
+
+  let mask: Uint8Array;
+  try {
+    mask = getSelectionMask(structure, modelIndex, representation.selection);
+  } catch (error) {
+    console.error("Invalid selection:", error);
+    mask = new Uint8Array(atomCount);
+  }
+
+  const data: RepresentationData = {
+    type,
+    instanceData: null,
+    instanceAtoms: null,
+    bondData: null,
+    bondAtoms: null,
+    mesh: null,
+    opacity: representation.opacity,
   };
+
+  if (type === ViewMode.LINES) {
+    const lines = extractLineRenderData(
+      structure,
+      modelIndex,
+      instanceData,
+      mask
+    );
+    data.mesh = { ...lines, normals: null, indices: null };
+  } else if (type === ViewMode.SURFACE) {
+    const surface = extractSurfaceRenderData(
+      structure,
+      modelIndex,
+      instanceData,
+      surfaceOptions,
+      mask
+    );
+    data.mesh = { ...surface, indices: null };
+  } else if (type === ViewMode.RIBBON) {
+    // Residues are drawn when their CA or P is selected
+    data.mesh = mergeRibbonGeometries(
+      createRibbonGeometry(
+        (modelData.backboneAtoms ?? []).filter(
+          ({ atomIndex }) => mask[atomIndex]
+        ),
+        tubeDetail
+      ),
+      createNucleicAcidGeometry(
+        (modelData.nucleotides ?? []).filter(
+          ({ atomIndex }) => mask[atomIndex]
+        ),
+        tubeDetail
+      )
+    );
+  } else {
+    data.instanceData = instanceData.filter(
+      (_, i) => mask[Math.floor(i / 7)] === 1
+    );
+    data.instanceAtoms = Int32Array.from(
+      { length: atomCount },
+      (_, index) => index
+    ).filter((index) => mask[index] === 1);
+    if (BOND_VIEW_MODES.includes(type)) {
+      const bonds = extractBondRenderData(
+        structure,
+        modelIndex,
+        instanceData,
+        mask
+      );
+      data.bondData = bonds.instances;
+      data.bondAtoms = bonds.atomIndices;
+    }
+  }
+
+  return data;
 }
 
-function getAtomProperties(
-  element: string
-): [number, [number, number, number]] {
+// Sphere radius of each element in Å
+function getAtomRadius(element: string): number {
   switch (element.toUpperCase()) {
     case "H":
-      return [0.31, [1.0, 1.0, 1.0]]; // White
+      return 0.31;
     case "C":
-      return [0.77, [0.5, 0.5, 0.5]]; // Gray
+      return 0.77;
     case "N":
-      return [0.75, [0.0, 0.0, 1.0]]; // Blue
+      return 0.75;
     case "O":
-      return [0.73, [1.0, 0.0, 0.0]]; // Red
+      return 0.73;
     case "P":
-      return [1.06, [1.0, 0.5, 0.0]]; // Orange
+      return 1.06;
     case "S":
-      return [1.02, [1.0, 1.0, 0.0]]; // Yellow
+      return 1.02;
+    case "FE":
+      return 1.25;
+    case "ZN":
+      return 1.2;
+    case "MG":
+      return 1.3;
+    case "CA":
+      return 1.5;
+    case "NA":
+    case "K":
+      return 1.6;
+    case "F":
+      return 0.71;
+    case "CL":
+      return 0.99;
+    case "BR":
+      return 1.14;
+    case "I":
+      return 1.33;
     default:
-      return [0.75, [0.8, 0.8, 0.8]]; // Light gray
+      return 0.75;
   }
 }
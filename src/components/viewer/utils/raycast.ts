@@ -3,8 +3,9 @@
 import { Matrix4 } from "./matrix";
 
 export interface Ray {
-  origin: [number, number, number];
+  origin: [number, number, number]; // On the near plane
   direction: [number, number, number];
+  length: number; // Distance to the far plane
 }
 
 export function createRayFromScreen(
@@ -47,6 +48,7 @@ export function createRayFromScreen(
   return {
     origin: nearPoint,
     direction,
+    length,
   };
 }
 
@@ -1,29 +1,36 @@
-interface BackboneAtom {
-  position: [number, number, number];
-  residueIndex: number;
-  secondaryStructure: "helix" | "sheet" | "coil";
+import { BackboneAtom } from "../types";
+import { GeometryData } from "./geometry";
+import { TubeDetail } from "./levelOfDetail";
+import { SECONDARY_STRUCTURE_COLORS } from "./colorSchemes";
+
+export interface RibbonGeometry extends GeometryData {
+  indices: Uint32Array; // Cartoons of large structures pass 65,535 vertices
+  colors: Float32Array;
+  // Drawn atom (CA or P) whose residue each vertex belongs to, for colour
+  // schemes; -1 for vertices that keep their colour
+  atomIndices: Int32Array;
 }
 
-function normalize(v: number[]): number[] {
+export function normalize(v: number[]): number[] {
   const length = Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2]);
   return length === 0
     ? [0, 0, 0]
     : [v[0] / length, v[1] / length, v[2] / length];
 }
 
-function subtract(a: number[], b: number[]): number[] {
+export function subtract(a: number[], b: number[]): number[] {
   return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
 }
 
-function add(a: number[], b: number[]): number[] {
+export function add(a: number[], b: number[]): number[] {
   return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
 }
 
-function scale(v: number[], s: number): number[] {
+export function scale(v: number[], s: number): number[] {
   return [v[0] * s, v[1] * s, v[2] * s];
 }
 
-function cross(a: number[], b: number[]): number[] {
+export function cross(a: number[], b: number[]): number[] {
   return [
     a[1] * b[2] - a[2] * b[1],
     a[2] * b[0] - a[0] * b[2],
@@ -32,7 +39,7 @@ function cross(a: number[], b: number[]): number[] {
 }
 
 // Calculate Catmull-Rom spline point
-function catmullRomSpline(
+export function catmullRomSpline(
   p0: number[],
   p1: number[],
   p2: number[],
@@ -50,13 +57,202 @@ function catmullRomSpline(
   return add(add(v0, v1), add(v2, v3));
 }
 
-export function createRibbonGeometry(backboneAtoms: BackboneAtom[]) {
-  if (backboneAtoms.length < 4) {
+// Derivative of the Catmull-Rom spline with respect to t
+export function catmullRomTangent(
+  p0: number[],
+  p1: number[],
+  p2: number[],
+  p3: number[],
+  t: number
+): number[] {
+  const t2 = t * t;
+
+  const v0 = scale(p0, -1.5 * t2 + 2 * t - 0.5);
+  const v1 = scale(p1, 4.5 * t2 - 5 * t);
+  const v2 = scale(p2, -4.5 * t2 + 4 * t + 0.5);
+  const v3 = scale(p3, 1.5 * t2 - t);
+
+  return add(add(v0, v1), add(v2, v3));
+}
+
+export function dot(a: number[], b: number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+// Half-width and half-thickness of the elliptical cross-section, in Å
+type Profile = [number, number];
+
+const PROFILES: Record<BackboneAtom["secondaryStructure"], Profile> = {
+  helix: [1.2, 0.25], // Flat ribbon
+  sheet: [1.0, 0.25], // Flat ribbon ending in an arrow
+  coil: [0.3, 0.3], // Round tube
+};
+const ARROW_HALF_WIDTH = 1.7; // At the base of a strand's arrowhead
+
+// Unit vector perpendicular to the CA trace in the peptide plane of each
+// residue, pointing from the CA towards its carbonyl O. Without an O (CA-only
+// models) the trace's curvature is used. Each guide is flipped to agree with
+// the previous one, so the frame stays continuous and the ribbon never
+// twists through 180° between residues.
+function computeGuides(backboneAtoms: BackboneAtom[]): number[][] {
+  const guides: number[][] = [];
+
+  backboneAtoms.forEach((atom, i) => {
+    const previous = backboneAtoms[i - 1];
+    const next = backboneAtoms[i + 1];
+    const along = next
+      ? subtract(next.position, atom.position)
+      : subtract(atom.position, previous?.position ?? atom.position);
+
+    let sideways = [0, 0, 0];
+    if (atom.oxygen) {
+      sideways = subtract(atom.oxygen, atom.position);
+    } else if (previous && next) {
+      sideways = subtract(
+        add(previous.position, next.position),
+        scale(atom.position, 2)
+      );
+    }
+
+    let guide = normalize(cross(cross(along, sideways), along));
+    if (dot(guide, guide) === 0) {
+      guide = guides[i - 1] ?? normalize(cross(along, [0, 1, 0]));
+      if (dot(guide, guide) === 0) guide = [1, 0, 0];
+    }
+    if (i > 0 && dot(guide, guides[i - 1]) < 0) {
+      guide = scale(guide, -1);
+    }
+    guides.push(guide);
+  });
+
+  return guides;
+}
+
+// Consecutive CA atoms further apart than this are not bonded; the chain
+// has missing residues between them
+const CHAIN_BREAK_DISTANCE = 4.2;
+
+// Dashed line bridging the missing residues of a chain break
+const GAP_DASH_LENGTH = 0.6;
+const GAP_DASH_SPACING = 0.5;
+const GAP_DASH_RADIUS = 0.12;
+const GAP_COLOR = [0.6, 0.6, 0.6];
+
+// Splits a trace into runs of consecutive residues of one chain, breaking
+// wherever neighbours are further apart than maxDistance
+export function splitTrace<T extends { position: number[]; chain: string }>(
+  residues: T[],
+  maxDistance: number
+): T[][] {
+  const runs: T[][] = [];
+  residues.forEach((residue, i) => {
+    const previous = residues[i - 1];
+    if (
+      !previous ||
+      previous.chain !== residue.chain ||
+      Math.hypot(...subtract(residue.position, previous.position)) > maxDistance
+    ) {
+      runs.push([]);
+    }
+    runs[runs.length - 1].push(residue);
+  });
+  return runs;
+}
+
+// Short cylinders along the straight line from start to end
+function createGapConnector(start: number[], end: number[]): RibbonGeometry {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+  const colors: number[] = [];
+
+  const length = Math.hypot(...subtract(end, start));
+  const axis = normalize(subtract(end, start));
+  const side = normalize(
+    cross(axis, Math.abs(axis[1]) < 0.99 ? [0, 1, 0] : [1, 0, 0])
+  );
+  const up = cross(axis, side);
+  const ringVertices = 6;
+
+  const period = GAP_DASH_LENGTH + GAP_DASH_SPACING;
+  for (let offset = 0; offset + GAP_DASH_LENGTH <= length; offset += period) {
+    const baseIndex = positions.length / 3;
+    [offset, offset + GAP_DASH_LENGTH].forEach((distance) => {
+      const center = add(start, scale(axis, distance));
+      for (let k = 0; k < ringVertices; k++) {
+        const angle = (k / ringVertices) * Math.PI * 2;
+        const normal = add(
+          scale(side, Math.cos(angle)),
+          scale(up, Math.sin(angle))
+        );
+        positions.push(...add(center, scale(normal, GAP_DASH_RADIUS)));
+        normals.push(...normal);
+        colors.push(...GAP_COLOR);
+      }
+    });
+    for (let k = 0; k < ringVertices; k++) {
+      const a = baseIndex + k;
+      const b = baseIndex + ((k + 1) % ringVertices);
+      indices.push(
+        a,
+        b,
+        a + ringVertices,
+        b,
+        b + ringVertices,
+        a + ringVertices
+      );
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    indices: new Uint32Array(indices),
+    colors: new Float32Array(colors),
+    atomIndices: new Int32Array(positions.length / 3).fill(-1),
+  };
+}
+
+// Cartoon of a protein: one ribbon per unbroken run of each chain, and
+// optionally dashed connectors across the chain breaks
+export function createRibbonGeometry(
+  backboneAtoms: BackboneAtom[],
+  detail: TubeDetail,
+  showGaps: boolean = true
+): RibbonGeometry {
+  const runs = splitTrace(backboneAtoms, CHAIN_BREAK_DISTANCE);
+  const geometries = runs.map((run) => createSegmentGeometry(run, detail));
+
+  if (showGaps) {
+    runs.forEach((run, i) => {
+      const next = runs[i + 1];
+      if (next && next[0].chain === run[0].chain) {
+        geometries.push(
+          createGapConnector(run[run.length - 1].position, next[0].position)
+        );
+      }
+    });
+  }
+
+  return mergeRibbonGeometries(...geometries);
+}
+
+// Cartoon of an unbroken CA trace: a Catmull-Rom spline through the CA
+// atoms, swept with an elliptical cross-section oriented by the peptide-plane
+// guides. Helices are flat ribbons, strands flat arrows whose head covers
+// their last residue, and everything else a round tube. Cross-sections blend
+// between residues of different secondary structure.
+function createSegmentGeometry(
+  backboneAtoms: BackboneAtom[],
+  { segmentsPerResidue, ringVertices }: TubeDetail
+): RibbonGeometry {
+  if (backboneAtoms.length < 2) {
     return {
       positions: new Float32Array(0),
       normals: new Float32Array(0),
-      indices: new Uint16Array(0),
+      indices: new Uint32Array(0),
       colors: new Float32Array(0),
+      atomIndices: new Int32Array(0),
     };
   }
 
@@ -64,175 +260,146 @@ export function createRibbonGeometry(backboneAtoms: BackboneAtom[]) {
   const normals: number[] = [];
   const indices: number[] = [];
   const colors: number[] = [];
+  const atomIndices: number[] = [];
 
-  // Parameters for different secondary structures
-  const params = {
-    helix: {
-      width: 1.8, // Helix diameter
-      thickness: 0.3, // Ribbon thickness
-      segments: 12, // Segments per residue
-      twist: Math.PI * 2, // Full twist per residue
-      rise: 1.5, // Vertical rise per turn
-    },
-    sheet: {
-      width: 2.5, // Sheet width
-      thickness: 0.2, // Sheet thickness
-      segments: 4, // Segments per residue
-      arrowWidth: 3.5, // Width at arrow tip
-    },
-    coil: {
-      width: 0.6, // Coil width
-      thickness: 0.2, // Coil thickness
-      segments: 6, // Segments per residue
-    },
-  };
+  const count = backboneAtoms.length;
+  const guides = computeGuides(backboneAtoms);
+  const types = backboneAtoms.map((atom) => atom.secondaryStructure);
+  const isStrandEnd = (i: number) =>
+    types[i] === "sheet" && types[i + 1] !== "sheet";
+  // Strands taper to a tube at their last residue, below its arrowhead
+  const residueProfile = (i: number): Profile =>
+    isStrandEnd(i) ? PROFILES.coil : PROFILES[types[i]];
 
-  // Add padding control points for spline calculation
-  const padded = [
-    backboneAtoms[0],
-    ...backboneAtoms,
-    backboneAtoms[backboneAtoms.length - 1],
-  ];
+  const addRing = (
+    center: number[],
+    side: number[],
+    up: number[],
+    [halfWidth, halfThickness]: Profile,
+    color: number[],
+    atomIndex: number,
+    connect: boolean
+  ) => {
+    const baseIndex = positions.length / 3;
+    for (let k = 0; k < ringVertices; k++) {
+      const angle = (k / ringVertices) * Math.PI * 2;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      positions.push(
+        ...add(
+          center,
+          add(scale(side, halfWidth * cos), scale(up, halfThickness * sin))
+        )
+      );
+      normals.push(
+        ...normalize(
+          add(scale(side, cos / halfWidth), scale(up, sin / halfThickness))
+        )
+      );
+      colors.push(...color);
+      atomIndices.push(atomIndex);
+    }
 
-  // Generate ribbon geometry
-  for (let i = 1; i < padded.length - 2; i++) {
-    const curr = padded[i];
-    const structure = curr.secondaryStructure;
-    const p0 = padded[i - 1].position;
-    const p1 = curr.position;
-    const p2 = padded[i + 1].position;
-    const p3 = padded[i + 2].position;
-
-    const segments = params[structure].segments;
-
-    for (let j = 0; j < segments; j++) {
-      const t = j / segments;
-      const nextT = (j + 1) / segments;
-
-      // Calculate spline points
-      const pos = catmullRomSpline(p0, p1, p2, p3, t);
-      const nextPos = catmullRomSpline(p0, p1, p2, p3, nextT);
-
-      // Calculate tangent and normal vectors
-      const tangent = normalize(subtract(nextPos, pos));
-      const up = [0, 1, 0];
-      let right = normalize(cross(tangent, up));
-      let normal = normalize(cross(right, tangent));
-
-      // Adjust vectors based on secondary structure
-      if (structure === "helix") {
-        // Create helical twist
-        const twist = (t + i - 1) * params.helix.twist;
-        const rotatedRight = [
-          right[0] * Math.cos(twist) - normal[0] * Math.sin(twist),
-          right[1] * Math.cos(twist) - normal[1] * Math.sin(twist),
-          right[2] * Math.cos(twist) - normal[2] * Math.sin(twist),
-        ];
-        const rotatedNormal = [
-          right[0] * Math.sin(twist) + normal[0] * Math.cos(twist),
-          right[1] * Math.sin(twist) + normal[1] * Math.cos(twist),
-          right[2] * Math.sin(twist) + normal[2] * Math.cos(twist),
-        ];
-        right = rotatedRight;
-        normal = rotatedNormal;
+    if (!connect) return;
+    for (let k = 0; k < ringVertices; k++) {
+      const next = (k + 1) % ringVertices;
+      const a = baseIndex - ringVertices + k;
+      const b = baseIndex - ringVertices + next;
+      indices.push(a, b, baseIndex + k, b, baseIndex + next, baseIndex + k);
+    }
+  };
 
-        // Add helical rise
-        pos[1] += (t + i - 1) * params.helix.rise;
-      }
+  let previousSide: number[] | null = null;
+  for (let i = 0; i < count - 1; i++) {
+    const p0 = backboneAtoms[Math.max(i - 1, 0)].position;
+    const p1 = backboneAtoms[i].position;
+    const p2 = backboneAtoms[i + 1].position;
+    const p3 = backboneAtoms[Math.min(i + 2, count - 1)].position;
+    const isArrow = types[i] === "sheet" && isStrandEnd(i + 1);
 
-      const width =
-        structure === "sheet"
-          ? params.sheet.width * (1 + (i / padded.length) * 0.5) // Gradually widen for arrow
-          : params[structure].width;
-
-      const thickness = params[structure].thickness;
-
-      // Generate vertices for cross-section
-      const baseIndex = positions.length / 3;
-      if (structure === "sheet") {
-        // Flat ribbon for sheets with slight arrow shape
-        positions.push(
-          ...add(pos, scale(right, width / 2)),
-          ...add(pos, scale(normal, thickness)),
-          ...subtract(pos, scale(right, width / 2)),
-          ...subtract(pos, scale(normal, thickness))
-        );
-      } else {
-        // Curved cross-section for helices and coils
-        const vertexCount = 8;
-        for (let k = 0; k < vertexCount; k++) {
-          const angle = (k / vertexCount) * Math.PI * 2;
-          const r =
-            structure === "helix"
-              ? params.helix.width / 2
-              : params.coil.width / 2;
-          const vertexPos = add(pos, [
-            right[0] * r * Math.cos(angle) + normal[0] * r * Math.sin(angle),
-            right[1] * r * Math.cos(angle) + normal[1] * r * Math.sin(angle),
-            right[2] * r * Math.cos(angle) + normal[2] * r * Math.sin(angle),
-          ]);
-          positions.push(...vertexPos);
-        }
-      }
+    // The last segment also emits the ring at the final residue
+    const samples =
+      i === count - 2 ? segmentsPerResidue + 1 : segmentsPerResidue;
+    for (let j = 0; j < samples; j++) {
+      const t = j / segmentsPerResidue;
+      const center = catmullRomSpline(p0, p1, p2, p3, t);
+      const tangent = normalize(catmullRomTangent(p0, p1, p2, p3, t));
 
-      // Add normals
-      const vertexCount = structure === "sheet" ? 4 : 8;
-      for (let k = 0; k < vertexCount; k++) {
-        normals.push(...normal);
+      const guide = add(scale(guides[i], 1 - t), scale(guides[i + 1], t));
+      let side = normalize(
+        subtract(guide, scale(tangent, dot(guide, tangent)))
+      );
+      if (previousSide && dot(side, previousSide) < 0) {
+        side = scale(side, -1);
       }
+      previousSide = side;
+      const up = cross(tangent, side);
 
-      // Add indices for triangle strip
-      if (j > 0) {
-        if (structure === "sheet") {
-          // Indices for flat ribbon
-          indices.push(
-            baseIndex - 4,
-            baseIndex - 3,
-            baseIndex,
-            baseIndex - 3,
-            baseIndex + 1,
-            baseIndex,
-            baseIndex - 2,
-            baseIndex - 1,
-            baseIndex + 2,
-            baseIndex - 1,
-            baseIndex + 3,
-            baseIndex + 2
-          );
-        } else {
-          // Indices for curved cross-section
-          for (let k = 0; k < vertexCount; k++) {
-            const next = (k + 1) % vertexCount;
-            indices.push(
-              baseIndex - vertexCount + k,
-              baseIndex - vertexCount + next,
-              baseIndex + k,
-              baseIndex - vertexCount + next,
-              baseIndex + next,
-              baseIndex + k
-            );
-          }
+      const residue = t < 0.5 ? i : i + 1;
+      const color = SECONDARY_STRUCTURE_COLORS[types[residue]];
+      const { atomIndex } = backboneAtoms[residue];
+      let profile: Profile;
+      if (isArrow) {
+        // Step out to the full arrowhead, then taper to the strand end
+        if (j === 0) {
+          addRing(center, side, up, PROFILES.sheet, color, atomIndex, i > 0);
         }
+        profile = [
+          ARROW_HALF_WIDTH + (PROFILES.coil[0] - ARROW_HALF_WIDTH) * t,
+          PROFILES.sheet[1],
+        ];
+      } else {
+        const start = residueProfile(i);
+        const end = residueProfile(i + 1);
+        const blend = t * t * (3 - 2 * t); // Smoothstep
+        profile = [
+          start[0] + (end[0] - start[0]) * blend,
+          start[1] + (end[1] - start[1]) * blend,
+        ];
       }
 
-      // Add colors
-      const color =
-        structure === "helix"
-          ? [0.8, 0.3, 0.3] // Red for helix
-          : structure === "sheet"
-          ? [0.3, 0.5, 0.8] // Blue for sheet
-          : [0.8, 0.8, 0.8]; // Light gray for coil
-
-      for (let k = 0; k < vertexCount; k++) {
-        colors.push(...color);
-      }
+      const connect = i > 0 || j > 0 || (isArrow && j === 0);
+      addRing(center, side, up, profile, color, atomIndex, connect);
     }
   }
 
   return {
     positions: new Float32Array(positions),
     normals: new Float32Array(normals),
-    indices: new Uint16Array(indices),
+    indices: new Uint32Array(indices),
     colors: new Float32Array(colors),
+    atomIndices: new Int32Array(atomIndices),
   };
 }
+
+// Concatenates meshes into one, so the protein and nucleic acid cartoons are
+// uploaded and drawn together
+export function mergeRibbonGeometries(
+  ...geometries: RibbonGeometry[]
+): RibbonGeometry {
+  const total = (key: "positions" | "indices") =>
+    geometries.reduce((sum, geometry) => sum + geometry[key].length, 0);
+  const merged = {
+    positions: new Float32Array(total("positions")),
+    normals: new Float32Array(total("positions")),
+    indices: new Uint32Array(total("indices")),
+    colors: new Float32Array(total("positions")),
+    atomIndices: new Int32Array(total("positions") / 3),
+  };
+
+  let vertexOffset = 0;
+  let indexOffset = 0;
+  geometries.forEach((geometry) => {
+    merged.positions.set(geometry.positions, vertexOffset * 3);
+    merged.normals.set(geometry.normals, vertexOffset * 3);
+    merged.colors.set(geometry.colors, vertexOffset * 3);
+    merged.atomIndices.set(geometry.atomIndices, vertexOffset);
+    geometry.indices.forEach((index, i) => {
+      merged.indices[indexOffset + i] = index + vertexOffset;
+    });
+    vertexOffset += geometry.positions.length / 3;
+    indexOffset += geometry.indices.length;
+  });
+
+  return merged;
+}
@@ -1,70 +1,424 @@
 // src/components/viewer/utils/shaders.ts
 
+// Values of the viewMode uniform
+export const SHADER_MODE = {
+  SPHERES: 0,
+  RIBBON: 1,
+  CYLINDERS: 2,
+  LINES: 3,
+  SURFACE: 4,
+} as const;
+
+// Bound before linking, so both programs agree and WebGL2 vertex arrays can
+// be built without looking locations up. The impostor's corner shares
+// location 0 with position, as the two are never drawn together.
+export const ATTRIBUTE_LOCATIONS = {
+  position: 0,
+  corner: 0,
+  normal: 1,
+  color: 2,
+  instancePosition: 3,
+  instanceColor: 4,
+  instanceRadius: 5,
+  instanceEnd: 6,
+} as const;
+
+// WebGL2 keeps the camera matrices in a uniform block shared by both
+// programs, updated once a frame
+export const CAMERA_BLOCK = "Camera";
+export const CAMERA_BLOCK_BINDING = 0;
+export const CAMERA_BLOCK_SIZE = 128; // Two mat4, in bytes
+
+const cameraUniforms = `
+  #if __VERSION__ >= 300
+    layout(std140) uniform ${CAMERA_BLOCK} {
+      mat4 modelViewMatrix;
+      mat4 projectionMatrix;
+    };
+  #else
+    uniform mat4 modelViewMatrix;
+    uniform mat4 projectionMatrix;
+  #endif
+`;
+
 export const vertexShaderSource = `
   attribute vec3 position;
   attribute vec3 normal;
   attribute vec3 instancePosition;
   attribute vec3 instanceColor;
   attribute float instanceRadius;
-  attribute vec3 color;            // Added for ribbon mode
+  attribute vec3 instanceEnd;      // Cylinder mode: bond end point
+  attribute vec3 color;            // Per-vertex colour in ribbon, lines and surface modes
 
-  uniform mat4 modelViewMatrix;
-  uniform mat4 projectionMatrix;
-  uniform int viewMode;           // Added to switch between modes (0: spheres, 1: ribbon)
+  ${cameraUniforms}
+  uniform int viewMode;           // 0: spheres, 1: ribbon, 2: cylinders, 3: lines, 4: surface
+  uniform float radiusScale;      // Shrinks spheres in ball-and-stick mode
+  uniform float fixedRadius;      // Licorice: one radius for spheres and cylinders, 0 = off
 
   varying vec3 vNormal;
   varying vec3 vColor;
   varying vec3 vPosition;
+  varying float vLit;             // 0.0 for lines, which have no normals
+  varying vec3 vViewNormal;       // Eye-space normal, for the normal pass
 
   void main() {
     vNormal = normal;
+    vLit = 1.0;
     vec3 worldPosition;
     
-    // Choose between sphere and ribbon mode
+    // Choose between sphere, cylinder, lines and mesh modes
     if (viewMode == 0) {
       // Sphere mode
       vColor = instanceColor;
-      worldPosition = (position * instanceRadius) + instancePosition;
+      float radius = fixedRadius > 0.0 ? fixedRadius : instanceRadius * radiusScale;
+      worldPosition = (position * radius) + instancePosition;
+    } else if (viewMode == 2) {
+      // Cylinder mode: the unit cylinder runs from instancePosition
+      // (y = 0) to instanceEnd (y = 1)
+      vColor = instanceColor;
+      vec3 axis = instanceEnd - instancePosition;
+      vec3 direction = normalize(axis);
+      vec3 helper = abs(direction.y) < 0.99 ? vec3(0.0, 1.0, 0.0) : vec3(1.0, 0.0, 0.0);
+      vec3 u = normalize(cross(direction, helper));
+      vec3 v = cross(u, direction);
+      float radius = fixedRadius > 0.0 ? fixedRadius : instanceRadius;
+      worldPosition = instancePosition + axis * position.y
+        + (u * position.x + v * position.z) * radius;
+      vNormal = u * normal.x + v * normal.z;
+    } else if (viewMode == 3) {
+      // Lines mode: bond segments with per-vertex element colour
+      vColor = color;
+      vLit = 0.0;
+      worldPosition = position;
     } else {
-      // Ribbon mode
+      // Ribbon and surface modes: triangle meshes with per-vertex colour
       vColor = color;
       worldPosition = position;
     }
 
     vec4 mvPosition = modelViewMatrix * vec4(worldPosition, 1.0);
     vPosition = mvPosition.xyz;
+    vViewNormal = (modelViewMatrix * vec4(vNormal, 0.0)).xyz;
     gl_Position = projectionMatrix * mvPosition;
   }
 `;
 
-export const fragmentShaderSource = `
-  precision mediump float;
-  
-  varying vec3 vNormal;
-  varying vec3 vColor;
-  varying vec3 vPosition;
+// Phong lighting in eye space, shared by the mesh and impostor shaders.
+// Cel shading quantises it into flat bands with a hard-edged highlight.
+const shadeFunction = `
+  uniform bool celShading;
 
-  void main() {
+  vec3 shade(vec3 color, vec3 normal, vec3 position) {
     // Light direction (static for now)
     vec3 lightDir = normalize(vec3(1.0, 1.0, 1.0));
-    vec3 normal = normalize(vNormal);
     
     // Ambient light
     float ambientStrength = 0.3;
-    vec3 ambient = ambientStrength * vColor;
+    vec3 ambient = ambientStrength * color;
     
     // Diffuse light
     float diff = max(dot(normal, lightDir), 0.0);
-    vec3 diffuse = diff * vColor;
+    if (celShading) diff = diff > 0.6 ? 1.0 : diff > 0.2 ? 0.6 : 0.2;
+    vec3 diffuse = diff * color;
     
     // Specular light
     float specularStrength = 0.5;
-    vec3 viewDir = normalize(-vPosition);  // We're in eye space, so camera is at (0,0,0)
+    vec3 viewDir = normalize(-position);  // We're in eye space, so camera is at (0,0,0)
     vec3 reflectDir = reflect(-lightDir, normal);
     float spec = pow(max(dot(viewDir, reflectDir), 0.0), 32.0);
+    if (celShading) spec = step(0.5, spec);
     vec3 specular = specularStrength * spec * vec3(1.0);
     
-    vec3 result = ambient + diffuse + specular;
-    gl_FragColor = vec4(result, 1.0);
+    return ambient + diffuse + specular;
+  }
+`;
+
+// Depth cueing: fades colours into the background between two eye-space
+// depths. Off while fogFar is not beyond fogNear.
+const fogFunction = `
+  uniform float fogNear;
+  uniform float fogFar;
+  uniform vec3 fogColor;
+
+  vec3 applyFog(vec3 color, vec3 position) {
+    if (fogFar <= fogNear) return color;
+    return mix(color, fogColor, smoothstep(fogNear, fogFar, -position.z));
+  }
+`;
+
+// Eye-space normal packed into a colour, for the ambient occlusion pass
+const encodeNormalFunction = `
+  vec4 encodeNormal(vec3 normal) {
+    return vec4(normal * 0.5 + 0.5, 1.0);
+  }
+`;
+
+export const fragmentShaderSource = `
+  precision mediump float;
+
+  uniform float opacity;          // Below 1.0 for overlaid models
+  uniform bool normalPass;        // Writes normals instead, see encodeNormal
+  
+  varying vec3 vNormal;
+  varying vec3 vColor;
+  varying vec3 vPosition;
+  varying float vLit;
+  varying vec3 vViewNormal;
+
+  ${shadeFunction}
+  ${fogFunction}
+  ${encodeNormalFunction}
+
+  void main() {
+    if (normalPass) {
+      // Lines have no normal; treat them as facing the camera
+      vec3 normal = vLit < 0.5 ? vec3(0.0, 0.0, 1.0) : normalize(vViewNormal);
+      gl_FragColor = encodeNormal(normal);
+      return;
+    }
+
+    if (vLit < 0.5) {
+      gl_FragColor = vec4(applyFog(vColor, vPosition), opacity);
+      return;
+    }
+
+    vec3 color = shade(vColor, normalize(vNormal), vPosition);
+    gl_FragColor = vec4(applyFog(color, vPosition), opacity);
+  }
+`;
+
+// Sphere impostors: each atom is a camera-facing quad on which the fragment
+// shader ray-casts the sphere, writing its true depth. Needs EXT_frag_depth
+// on WebGL1.
+export const impostorVertexShaderSource = `
+  attribute vec2 corner;           // Quad corner, -1 to 1
+  attribute vec3 instancePosition;
+  attribute vec3 instanceColor;
+  attribute float instanceRadius;
+
+  ${cameraUniforms}
+  uniform float radiusScale;
+  uniform float fixedRadius;
+
+  varying vec3 vColor;
+  varying vec3 vCenter;            // Sphere centre in eye space
+  varying float vRadius;
+  varying vec3 vPosition;          // Point on the quad in eye space
+
+  void main() {
+    vColor = instanceColor;
+    vRadius = fixedRadius > 0.0 ? fixedRadius : instanceRadius * radiusScale;
+    vCenter = (modelViewMatrix * vec4(instancePosition, 1.0)).xyz;
+
+    // The quad lies in the plane through the centre. Perspective makes the
+    // silhouette of spheres away from the view axis up to 1/cos(angle)
+    // larger, so the quad is oversized to cover the whole field of view.
+    vPosition = vCenter + vec3(corner * vRadius * 1.5, 0.0);
+    gl_Position = projectionMatrix * vec4(vPosition, 1.0);
+  }
+`;
+
+export const impostorFragmentShaderSource = `
+  #if __VERSION__ < 300
+    #extension GL_EXT_frag_depth : enable
+  #endif
+  #ifdef GL_FRAGMENT_PRECISION_HIGH
+    precision highp float;
+  #else
+    precision mediump float;
+  #endif
+
+  ${cameraUniforms}
+  uniform float opacity;
+  uniform bool normalPass;
+
+  varying vec3 vColor;
+  varying vec3 vCenter;
+  varying float vRadius;
+  varying vec3 vPosition;
+
+  ${shadeFunction}
+  ${fogFunction}
+  ${encodeNormalFunction}
+
+  void main() {
+    // Nearest intersection of the eye ray through this fragment
+    vec3 ray = normalize(vPosition);
+    float b = dot(ray, vCenter);
+    float discriminant = b * b - dot(vCenter, vCenter) + vRadius * vRadius;
+    if (discriminant < 0.0) discard;
+
+    vec3 hit = ray * (b - sqrt(discriminant));
+    vec4 clipPosition = projectionMatrix * vec4(hit, 1.0);
+    float depth = clipPosition.z / clipPosition.w;
+    // The quad only gets clipped whole, so the near and far planes of the
+    // clipping slab are applied to the hit here
+    if (abs(depth) > 1.0) discard;
+    gl_FragDepthEXT = 0.5 * depth + 0.5;
+
+    vec3 normal = (hit - vCenter) / vRadius;
+    gl_FragColor = normalPass
+      ? encodeNormal(normal)
+      : vec4(applyFog(shade(vColor, normal, hit), hit), opacity);
+  }
+`;
+
+// Screen-space ambient occlusion, drawn over a full-screen triangle
+export const screenVertexShaderSource = `
+  attribute vec2 corner;
+
+  varying vec2 vUv;
+
+  void main() {
+    vUv = corner * 0.5 + 0.5;
+    gl_Position = vec4(corner, 0.0, 1.0);
   }
 `;
+
+export const AMBIENT_OCCLUSION_SAMPLES = 16;
+
+// Occlusion of each pixel from the normal pass: the share of a hemisphere
+// of samples around its normal that lies behind other geometry. The kernel
+// is rotated by one of 16 angles picked by the pixel's place in a 4×4 tile,
+// which the 4×4 blur of the composite pass averages out.
+export const ambientOcclusionFragmentShaderSource = `
+  #ifdef GL_FRAGMENT_PRECISION_HIGH
+    precision highp float;
+  #else
+    precision mediump float;
+  #endif
+
+  uniform sampler2D depthTexture;
+  uniform sampler2D normalTexture;
+  uniform mat4 projection;
+  uniform mat4 inverseProjection;
+  uniform vec3 kernel[${AMBIENT_OCCLUSION_SAMPLES}]; // Hemisphere around +z
+  uniform float radius;           // Å
+  uniform float strength;
+
+  varying vec2 vUv;
+
+  vec3 viewPosition(vec2 uv) {
+    float depth = texture2D(depthTexture, uv).r;
+    vec4 position = inverseProjection * vec4(vec3(uv, depth) * 2.0 - 1.0, 1.0);
+    return position.xyz / position.w;
+  }
+
+  void main() {
+    if (texture2D(depthTexture, vUv).r >= 1.0) {
+      gl_FragColor = vec4(1.0);   // Background
+      return;
+    }
+
+    vec3 position = viewPosition(vUv);
+    vec3 normal = normalize(texture2D(normalTexture, vUv).xyz * 2.0 - 1.0);
+
+    vec2 tile = mod(floor(gl_FragCoord.xy), 4.0);
+    float angle = (tile.x + tile.y * 4.0) * (6.2831853 / 16.0);
+    vec3 random = vec3(cos(angle), sin(angle), 0.0);
+    vec3 tangent = normalize(random - normal * dot(random, normal));
+    mat3 basis = mat3(tangent, cross(normal, tangent), normal);
+
+    float occlusion = 0.0;
+    for (int i = 0; i < ${AMBIENT_OCCLUSION_SAMPLES}; i++) {
+      vec3 samplePosition = position + basis * kernel[i] * radius;
+      vec4 projected = projection * vec4(samplePosition, 1.0);
+      float sceneZ = viewPosition(projected.xy / projected.w * 0.5 + 0.5).z;
+
+      // Geometry much further than the radius (like the background) is a
+      // different part of the scene, not an occluder
+      float range = smoothstep(0.0, 1.0, radius / abs(position.z - sceneZ));
+      occlusion += (sceneZ >= samplePosition.z + 0.05 ? 1.0 : 0.0) * range;
+    }
+
+    float visibility = 1.0 - strength * occlusion / ${AMBIENT_OCCLUSION_SAMPLES}.0;
+    gl_FragColor = vec4(vec3(clamp(visibility, 0.0, 1.0)), 1.0);
+  }
+`;
+
+// 4×4 box blur of the occlusion, multiplied into the scene by blending
+export const occlusionCompositeFragmentShaderSource = `
+  precision mediump float;
+
+  uniform sampler2D occlusionTexture;
+  uniform vec2 texelSize;
+
+  varying vec2 vUv;
+
+  void main() {
+    float visibility = 0.0;
+    for (int x = -2; x < 2; x++) {
+      for (int y = -2; y < 2; y++) {
+        vec2 offset = vec2(float(x), float(y)) * texelSize;
+        visibility += texture2D(occlusionTexture, vUv + offset).r;
+      }
+    }
+    gl_FragColor = vec4(vec3(visibility / 16.0), 1.0);
+  }
+`;
+
+// Silhouettes and creases from the normal pass, blended over the scene.
+// A pixel is outlined when a neighbour width pixels away is well in
+// front of it, so silhouettes fall just outside the nearer surface, or
+// faces a clearly different way.
+export const outlineFragmentShaderSource = `
+  #ifdef GL_FRAGMENT_PRECISION_HIGH
+    precision highp float;
+  #else
+    precision mediump float;
+  #endif
+
+  uniform sampler2D depthTexture;
+  uniform sampler2D normalTexture;
+  uniform mat4 inverseProjection;
+  uniform vec2 texelSize;
+  uniform float width;            // Pixels
+  uniform vec3 color;
+
+  varying vec2 vUv;
+
+  float viewDepth(vec2 uv) {
+    float depth = texture2D(depthTexture, uv).r;
+    vec4 position = inverseProjection * vec4(vec3(uv, depth) * 2.0 - 1.0, 1.0);
+    return -position.z / position.w;
+  }
+
+  vec3 viewNormal(vec2 uv) {
+    return texture2D(normalTexture, uv).xyz * 2.0 - 1.0;
+  }
+
+  float edge(vec2 direction, float depth, vec3 normal) {
+    vec2 uv = vUv + direction * texelSize * width;
+    float neighbourDepth = viewDepth(uv);
+    // Depth steps are relative, so distant geometry is not all outline
+    if (depth - neighbourDepth > max(1.0, 0.02 * neighbourDepth)) return 1.0;
+    return dot(normal, viewNormal(uv)) < 0.5 ? 1.0 : 0.0;
+  }
+
+  void main() {
+    float depth = viewDepth(vUv);
+    vec3 normal = viewNormal(vUv);
+
+    float outline = max(
+      max(edge(vec2(1.0, 0.0), depth, normal), edge(vec2(-1.0, 0.0), depth, normal)),
+      max(edge(vec2(0.0, 1.0), depth, normal), edge(vec2(0.0, -1.0), depth, normal))
+    );
+    gl_FragColor = vec4(color, outline);
+  }
+`;
+
+// The shaders above are GLSL ES 1.00. WebGL2 compiles them as GLSL ES 3.00,
+// renaming what changed between the versions.
+export function toGLSL300(source: string, stage: "vertex" | "fragment") {
+  const header =
+    stage === "vertex"
+      ? ["#define attribute in", "#define varying out"]
+      : [
+          "#define varying in",
+          "#define texture2D texture",
+          "#define gl_FragColor fragColor",
+          "#define gl_FragDepthEXT gl_FragDepth",
+          "out highp vec4 fragColor;",
+        ];
+  return ["#version 300 es", ...header, source].join("\n");
+}
@@ -0,0 +1,455 @@
+// src/lib/mmcif/parser.ts
+
+import { CifTokenizer, CifTokenType } from "./tokenizer";
+import {
+  AtomRecordType,
+  ConnectionType,
+  HelixRecord,
+  ParseDiagnostic,
+  ResidueRef,
+  SheetStrandRecord,
+  Structure,
+  StructureAtom,
+  StructureConnection,
+  StructureModel,
+} from "../structure/types";
+import {
+  checkAtom,
+  checkDuplicateAtomNames,
+  checkHasAtoms,
+} from "../structure/diagnostics";
+
+// Column-oriented view of one category, e.g. all "_atom_site.*" items.
+// Null values ("." and "?") are stored as empty strings.
+export interface CifCategory {
+  name: string;
+  rowCount: number;
+  fields: Map<string, string[]>;
+  rowLines: number[]; // Line of the first value of each row
+}
+
+export interface CifBlock {
+  name: string;
+  categories: Map<string, CifCategory>;
+}
+
+function splitTag(tag: string): [string, string] {
+  const dot = tag.indexOf(".");
+  if (dot === -1) {
+    // DDL1-style tags without a category separator
+    return [tag.slice(1), ""];
+  }
+  return [tag.slice(1, dot).toLowerCase(), tag.slice(dot + 1).toLowerCase()];
+}
+
+function getCategory(block: CifBlock, name: string): CifCategory {
+  let category = block.categories.get(name);
+  if (!category) {
+    category = { name, rowCount: 0, fields: new Map(), rowLines: [] };
+    block.categories.set(name, category);
+  }
+  return category;
+}
+
+export function parseCif(
+  text: string,
+  diagnostics: ParseDiagnostic[] = []
+): CifBlock[] {
+  const tokenizer = new CifTokenizer(text);
+  const blocks: CifBlock[] = [];
+  let block: CifBlock | null = null;
+  let token = tokenizer.next();
+
+  const requireBlock = (line: number): CifBlock => {
+    if (!block) {
+      throw new Error(`Data item outside of a data block on line ${line}`);
+    }
+    return block;
+  };
+
+  while (token.type !== CifTokenType.END) {
+    switch (token.type) {
+      case CifTokenType.DATA:
+        block = { name: token.value, categories: new Map() };
+        blocks.push(block);
+        token = tokenizer.next();
+        break;
+
+      case CifTokenType.LOOP: {
+        const current = requireBlock(token.line);
+        const columns: string[][] = [];
+        let category: CifCategory | null = null;
+
+        token = tokenizer.next();
+        while (token.type === CifTokenType.TAG) {
+          const [categoryName, field] = splitTag(token.value);
+          category = getCategory(current, categoryName);
+          const values: string[] = [];
+          category.fields.set(field, values);
+          columns.push(values);
+          token = tokenizer.next();
+        }
+
+        // Without tags there are no columns to put the values in
+        if (columns.length === 0) {
+          if (token.type === CifTokenType.VALUE) {
+            diagnostics.push({
+              severity: "error",
+              line: token.line,
+              message: "Loop without tags, its values were skipped",
+            });
+          }
+          while (token.type === CifTokenType.VALUE) token = tokenizer.next();
+          break;
+        }
+
+        let count = 0;
+        const rowLines: number[] = [];
+        while (token.type === CifTokenType.VALUE) {
+          if (count % columns.length === 0) rowLines.push(token.line);
+          columns[count % columns.length].push(token.isNull ? "" : token.value);
+          count++;
+          token = tokenizer.next();
+        }
+
+        if (category) {
+          // A truncated file leaves the last row incomplete; it is dropped
+          if (count % columns.length !== 0) {
+            diagnostics.push({
+              severity: "error",
+              line: rowLines[rowLines.length - 1],
+              message: `Loop for _${category.name} has ${count} values for ${columns.length} columns, last row dropped`,
+            });
+            rowLines.pop();
+          }
+          category.rowCount = Math.floor(count / columns.length);
+          category.rowLines = rowLines;
+        }
+        break;
+      }
+
+      case CifTokenType.TAG: {
+        const current = requireBlock(token.line);
+        const [categoryName, field] = splitTag(token.value);
+        const value = tokenizer.next();
+        if (value.type !== CifTokenType.VALUE) {
+          throw new Error(
+            `Missing value for ${token.value} on line ${token.line}`
+          );
+        }
+
+        const category = getCategory(current, categoryName);
+        category.fields.set(field, [value.isNull ? "" : value.value]);
+        category.rowCount = 1;
+        category.rowLines = [value.line];
+        token = tokenizer.next();
+        break;
+      }
+
+      default:
+        // Save frames only appear in dictionaries, not in model files
+        token = tokenizer.next();
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+// Reads columns by name, preferring the first name that is present. mmCIF
+// carries both author (PDB-style) and label numbering for most items.
+function columnReader(category: CifCategory | undefined) {
+  return (...names: string[]): ((row: number) => string) => {
+    for (const name of names) {
+      const values = category?.fields.get(name);
+      if (values) return (row) => values[row] ?? "";
+    }
+    return () => "";
+  };
+}
+
+function toNumber(value: string, fallback: number): number {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+function mapAtomSite(
+  block: CifBlock,
+  diagnostics: ParseDiagnostic[]
+): StructureModel[] {
+  const category = block.categories.get("atom_site");
+  if (!category) return [];
+
+  const column = columnReader(category);
+  const group = column("group_pdb");
+  const serial = column("id");
+  const element = column("type_symbol");
+  const name = column("auth_atom_id", "label_atom_id");
+  const altLoc = column("label_alt_id");
+  const residueName = column("auth_comp_id", "label_comp_id");
+  const chainId = column("auth_asym_id", "label_asym_id");
+  const residueNumber = column("auth_seq_id", "label_seq_id");
+  const insertionCode = column("pdbx_pdb_ins_code");
+  const x = column("cartn_x");
+  const y = column("cartn_y");
+  const z = column("cartn_z");
+  const occupancy = column("occupancy");
+  const tempFactor = column("b_iso_or_equiv");
+  const charge = column("pdbx_formal_charge");
+  const segmentId = column("label_entity_id");
+  const modelNumber = column("pdbx_pdb_model_num");
+
+  const models: StructureModel[] = [];
+  const modelIndices = new Map<number, number>();
+  // Source line of every atom, per model, for diagnostics
+  const atomLines: (number | null)[][] = [];
+  for (let row = 0; row < category.rowCount; row++) {
+    const line = category.rowLines[row] ?? null;
+    const recordType: AtomRecordType =
+      group(row) === "HETATM" ? "HETATM" : "ATOM";
+
+    const atom: StructureAtom = {
+      recordType,
+      serial: parseInt(serial(row), 10),
+      name: name(row),
+      altLoc: altLoc(row),
+      residueName: residueName(row),
+      chainId: chainId(row),
+      residueNumber: parseInt(residueNumber(row), 10),
+      insertionCode: insertionCode(row),
+      position: [parseFloat(x(row)), parseFloat(y(row)), parseFloat(z(row))],
+      occupancy: toNumber(occupancy(row), 1.0),
+      tempFactor: toNumber(tempFactor(row), 0.0),
+      segmentId: segmentId(row),
+      element: element(row).toUpperCase(),
+      charge: toNumber(charge(row), 0),
+    };
+    if (!checkAtom(atom, line, diagnostics)) continue;
+
+    const serialNumber = toNumber(modelNumber(row), 1);
+    let index = modelIndices.get(serialNumber);
+    if (index === undefined) {
+      index = models.length;
+      modelIndices.set(serialNumber, index);
+      models.push({ serial: serialNumber, atoms: [], bonds: [] });
+      atomLines.push([]);
+    }
+    models[index].atoms.push(atom);
+    atomLines[index].push(line);
+  }
+
+  models.forEach((model, index) =>
+    checkDuplicateAtomNames(model.atoms, atomLines[index], diagnostics)
+  );
+  return models;
+}
+
+// Reads a residue reference such as beg_auth_comp_id/beg_auth_asym_id/
+// beg_auth_seq_id/pdbx_beg_pdb_ins_code for the given prefix ("beg", "end")
+function residueRefReader(
+  category: CifCategory,
+  prefix: string
+): (row: number) => ResidueRef {
+  const column = columnReader(category);
+  const residueName = column(
+    `${prefix}_auth_comp_id`,
+    `${prefix}_label_comp_id`
+  );
+  const chainId = column(`${prefix}_auth_asym_id`, `${prefix}_label_asym_id`);
+  const residueNumber = column(
+    `${prefix}_auth_seq_id`,
+    `${prefix}_label_seq_id`
+  );
+  const insertionCode = column(`pdbx_${prefix}_pdb_ins_code`);
+
+  return (row) => ({
+    residueName: residueName(row),
+    chainId: chainId(row),
+    residueNumber: parseInt(residueNumber(row), 10),
+    insertionCode: insertionCode(row),
+  });
+}
+
+function mapStructConf(block: CifBlock): HelixRecord[] {
+  const category = block.categories.get("struct_conf");
+  if (!category) return [];
+
+  const column = columnReader(category);
+  const type = column("conf_type_id");
+  const id = column("pdbx_pdb_helix_id", "id");
+  const helixClass = column("pdbx_pdb_helix_class");
+  const length = column("pdbx_pdb_helix_length");
+  const start = residueRefReader(category, "beg");
+  const end = residueRefReader(category, "end");
+
+  const helices: HelixRecord[] = [];
+  for (let row = 0; row < category.rowCount; row++) {
+    // struct_conf also lists turns and bends; only helices map to HELIX
+    if (!type(row).toUpperCase().startsWith("HELX")) continue;
+
+    helices.push({
+      serial: helices.length + 1,
+      id: id(row),
+      start: start(row),
+      end: end(row),
+      helixClass: toNumber(helixClass(row), 1),
+      length: toNumber(length(row), 0),
+    });
+  }
+
+  return helices;
+}
+
+function mapStructSheetRange(block: CifBlock): SheetStrandRecord[] {
+  const category = block.categories.get("struct_sheet_range");
+  if (!category) return [];
+
+  const column = columnReader(category);
+  const sheetId = column("sheet_id");
+  const strandId = column("id");
+  const start = residueRefReader(category, "beg");
+  const end = residueRefReader(category, "end");
+
+  // Strand sense lives in _struct_sheet_order, relative to the strand it
+  // pairs with
+  const senses = new Map<string, number>();
+  const order = block.categories.get("struct_sheet_order");
+  if (order) {
+    const orderColumn = columnReader(order);
+    const orderSheet = orderColumn("sheet_id");
+    const secondStrand = orderColumn("range_id_2");
+    const sense = orderColumn("sense");
+    for (let row = 0; row < order.rowCount; row++) {
+      senses.set(
+        `${orderSheet(row)}:${secondStrand(row)}`,
+        sense(row).toLowerCase().startsWith("anti") ? -1 : 1
+      );
+    }
+  }
+
+  const strandCounts = new Map<string, number>();
+  for (let row = 0; row < category.rowCount; row++) {
+    strandCounts.set(sheetId(row), (strandCounts.get(sheetId(row)) ?? 0) + 1);
+  }
+
+  const strands: SheetStrandRecord[] = [];
+  const strandNumbers = new Map<string, number>();
+  for (let row = 0; row < category.rowCount; row++) {
+    const sheet = sheetId(row);
+    const strand = (strandNumbers.get(sheet) ?? 0) + 1;
+    strandNumbers.set(sheet, strand);
+
+    strands.push({
+      strand,
+      sheetId: sheet,
+      strandCount: strandCounts.get(sheet) ?? 0,
+      start: start(row),
+      end: end(row),
+      sense: senses.get(`${sheet}:${strandId(row)}`) ?? 0,
+      registration: null,
+    });
+  }
+
+  return strands;
+}
+
+const CONNECTION_TYPES: Record<string, ConnectionType> = {
+  covale: "covalent",
+  covale_base: "covalent",
+  covale_phosphate: "covalent",
+  covale_sugar: "covalent",
+  disulf: "disulfide",
+  metalc: "metal",
+  hydrog: "hydrogen",
+};
+
+const BOND_ORDERS: Record<string, number> = {
+  sing: 1,
+  doub: 2,
+  trip: 3,
+  quad: 4,
+};
+
+function mapStructConn(block: CifBlock): StructureConnection[] {
+  const category = block.categories.get("struct_conn");
+  if (!category) return [];
+
+  const column = columnReader(category);
+  const type = column("conn_type_id");
+  const order = column("pdbx_value_order");
+  const distance = column("pdbx_dist_value");
+
+  const partner = (n: 1 | 2) => {
+    const residueName = column(
+      `ptnr${n}_auth_comp_id`,
+      `ptnr${n}_label_comp_id`
+    );
+    const chainId = column(`ptnr${n}_auth_asym_id`, `ptnr${n}_label_asym_id`);
+    const residueNumber = column(
+      `ptnr${n}_auth_seq_id`,
+      `ptnr${n}_label_seq_id`
+    );
+    const insertionCode = column(`pdbx_ptnr${n}_pdb_ins_code`);
+    const atomName = column(`ptnr${n}_label_atom_id`);
+    const altLoc = column(`pdbx_ptnr${n}_label_alt_id`);
+
+    return (row: number) => ({
+      residueName: residueName(row),
+      chainId: chainId(row),
+      residueNumber: parseInt(residueNumber(row), 10),
+      insertionCode: insertionCode(row),
+      atomName: atomName(row),
+      altLoc: altLoc(row),
+    });
+  };
+  const partner1 = partner(1);
+  const partner2 = partner(2);
+
+  const connections: StructureConnection[] = [];
+  for (let row = 0; row < category.rowCount; row++) {
+    const connectionType = CONNECTION_TYPES[type(row).toLowerCase()];
+    if (!connectionType) continue;
+
+    connections.push({
+      type: connectionType,
+      partner1: partner1(row),
+      partner2: partner2(row),
+      order: BOND_ORDERS[order(row).toLowerCase()] ?? 1,
+      distance: toNumber(distance(row), 0),
+    });
+  }
+
+  return connections;
+}
+
+function firstValue(block: CifBlock, category: string, field: string) {
+  return block.categories.get(category)?.fields.get(field)?.[0] ?? "";
+}
+
+export function parseMmcif(cifContent: string): Structure {
+  const diagnostics: ParseDiagnostic[] = [];
+  const [block] = parseCif(cifContent, diagnostics);
+  if (!block) {
+    throw new Error("No data block found in mmCIF file");
+  }
+
+  const structure: Structure = {
+    header: {
+      classification: firstValue(block, "struct_keywords", "pdbx_keywords"),
+      depositionDate: firstValue(
+        block,
+        "pdbx_database_status",
+        "recvd_initial_deposition_date"
+      ),
+      idCode: firstValue(block, "entry", "id") || block.name,
+    },
+    title: firstValue(block, "struct", "title"),
+    models: mapAtomSite(block, diagnostics),
+    helices: mapStructConf(block),
+    sheets: mapStructSheetRange(block),
+    connections: mapStructConn(block),
+    diagnostics,
+  };
+  checkHasAtoms(structure);
+  return structure;
+}
@@ -0,0 +1,158 @@
+// src/lib/mmcif/tokenizer.ts
+//
+// Tokenizer for the STAR/CIF 1.1 syntax used by mmCIF (PDBx) files.
+
+export enum CifTokenType {
+  DATA = "data", // data_<name> block header
+  LOOP = "loop", // loop_
+  SAVE = "save", // save_ frame header or terminator
+  TAG = "tag", // _category.field
+  VALUE = "value", // Unquoted, quoted or semicolon-delimited value
+  END = "end",
+}
+
+export interface CifToken {
+  type: CifTokenType;
+  value: string;
+  line: number;
+  // "." (inapplicable) and "?" (unknown) are only special when unquoted
+  isNull: boolean;
+}
+
+function isWhitespace(code: number): boolean {
+  return code === 32 || code === 9 || code === 10 || code === 13;
+}
+
+// Produces one token at a time so that large files never materialise the full
+// token list in memory.
+export class CifTokenizer {
+  private position = 0;
+  private line = 1;
+
+  constructor(private readonly text: string) {}
+
+  next(): CifToken {
+    this.skipWhitespaceAndComments();
+
+    if (this.position >= this.text.length) {
+      return this.token(CifTokenType.END, "");
+    }
+
+    const text = this.text;
+    const start = this.position;
+    const char = text[start];
+
+    // Semicolon text fields start with ";" in the first column
+    if (char === ";" && (start === 0 || text[start - 1] === "\n")) {
+      return this.readTextField();
+    }
+
+    if (char === "'" || char === '"') {
+      return this.readQuoted(char);
+    }
+
+    while (
+      this.position < text.length &&
+      !isWhitespace(text.charCodeAt(this.position))
+    ) {
+      this.position++;
+    }
+    const word = text.slice(start, this.position);
+
+    if (word.charAt(0) === "_") {
+      return this.token(CifTokenType.TAG, word);
+    }
+
+    const lower = word.slice(0, 5).toLowerCase();
+    if (lower === "data_") {
+      return this.token(CifTokenType.DATA, word.slice(5));
+    }
+    if (lower === "loop_" && word.length === 5) {
+      return this.token(CifTokenType.LOOP, word);
+    }
+    if (lower === "save_") {
+      return this.token(CifTokenType.SAVE, word.slice(5));
+    }
+
+    return {
+      type: CifTokenType.VALUE,
+      value: word,
+      line: this.line,
+      isNull: word === "." || word === "?",
+    };
+  }
+
+  private token(type: CifTokenType, value: string): CifToken {
+    return { type, value, line: this.line, isNull: false };
+  }
+
+  private skipWhitespaceAndComments() {
+    const text = this.text;
+    while (this.position < text.length) {
+      const code = text.charCodeAt(this.position);
+      if (code === 10) {
+        this.line++;
+        this.position++;
+      } else if (isWhitespace(code)) {
+        this.position++;
+      } else if (code === 35) {
+        // "#" comments run to the end of the line
+        while (this.position < text.length && text[this.position] !== "\n") {
+          this.position++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  // A quote only closes the string when followed by whitespace, so values
+  // like 'N,N'-dimethyl' survive intact.
+  private readQuoted(quote: string): CifToken {
+    const text = this.text;
+    const start = this.position + 1;
+    let end = start;
+
+    while (end < text.length) {
+      if (
+        text[end] === quote &&
+        (end + 1 >= text.length || isWhitespace(text.charCodeAt(end + 1)))
+      ) {
+        break;
+      }
+      if (text[end] === "\n") {
+        throw new Error(`Unterminated quoted string on line ${this.line}`);
+      }
+      end++;
+    }
+
+    this.position = end + 1;
+    return this.token(CifTokenType.VALUE, text.slice(start, end));
+  }
+
+  private readTextField(): CifToken {
+    const text = this.text;
+    const startLine = this.line;
+    const start = this.position + 1;
+    let end = start;
+
+    for (;;) {
+      const newline = text.indexOf("\n", end);
+      if (newline === -1) {
+        throw new Error(
+          `Unterminated text field starting on line ${startLine}`
+        );
+      }
+      this.line++;
+      if (text[newline + 1] === ";") {
+        end = newline;
+        break;
+      }
+      end = newline + 1;
+    }
+
+    this.position = end + 2;
+    const value = text.slice(start, end).replace(/\r$/, "");
+    return { type: CifTokenType.VALUE, value, line: startLine, isNull: false };
+  }
+}
@@ -0,0 +1,360 @@
+// src/lib/pdb/parser.ts
+
+import {
+  AtomRecordType,
+  HelixRecord,
+  ResidueRef,
+  SheetStrandRecord,
+  Structure,
+  StructureAtom,
+  StructureConnection,
+  StructureHeader,
+  StructureModel,
+} from "../structure/types";
+import {
+  checkAtom,
+  checkDuplicateAtomNames,
+  checkHasAtoms,
+} from "../structure/diagnostics";
+
+const METAL_IONS = new Set([
+  "NA",
+  "K",
+  "MG",
+  "CA",
+  "MN",
+  "FE",
+  "CO",
+  "NI",
+  "CU",
+  "ZN",
+  "CD",
+  "HG",
+]);
+
+// Reads a fixed-width field using the 1-based, inclusive column numbers of
+// the PDB format specification.
+function column(line: string, start: number, end: number): string {
+  return line.slice(start - 1, end);
+}
+
+function parseNumber(field: string, fallback: number): number {
+  const value = parseFloat(field);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+// Serial and residue numbers beyond the decimal range of their columns are
+// written in hybrid-36 notation (e.g. "A0000" for atom 100000).
+export function decodeHybrid36(field: string): number {
+  const value = field.trim();
+  if (value === "" || /^-?\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const width = field.length;
+  const offset = 10 * Math.pow(36, width - 1) - Math.pow(10, width);
+  const decoded = parseInt(value, 36);
+
+  if (/^[A-Z][0-9A-Z]*$/.test(value)) {
+    return decoded - offset;
+  }
+  if (/^[a-z][0-9a-z]*$/.test(value)) {
+    return decoded - offset + 26 * Math.pow(36, width - 1);
+  }
+  return NaN;
+}
+
+// Charges are written as a digit followed by the sign ("2+", "1-").
+function parseCharge(field: string): number {
+  const value = field.trim();
+  const match = value.match(/^(\d)([+-])$/) || value.match(/^([+-])(\d)$/);
+  if (!match) return 0;
+
+  const digit = /\d/.test(match[1]) ? match[1] : match[2];
+  const sign = match[1] === "-" || match[2] === "-" ? -1 : 1;
+  return sign * parseInt(digit, 10);
+}
+
+// Older files leave the element columns blank, so fall back to the atom name.
+// The element symbol is right-justified in columns 13-14 of the name field,
+// which keeps calcium "CA  " apart from the alpha carbon " CA ".
+function inferElement(rawName: string, recordType: AtomRecordType): string {
+  const first = rawName.charAt(0);
+  const second = rawName.charAt(1);
+
+  if (first === " " || /\d/.test(first)) {
+    return second.trim().toUpperCase();
+  }
+  if (recordType === "ATOM" || first === "H") {
+    return first.toUpperCase();
+  }
+  return `${first}${second}`.trim().toUpperCase();
+}
+
+export function parseAtomRecord(line: string): StructureAtom | null {
+  const record = column(line, 1, 6).trim();
+  if (record !== "ATOM" && record !== "HETATM") {
+    return null;
+  }
+
+  const recordType: AtomRecordType = record;
+  const x = parseFloat(column(line, 31, 38));
+  const y = parseFloat(column(line, 39, 46));
+  const z = parseFloat(column(line, 47, 54));
+  const rawName = column(line, 13, 16).padEnd(4);
+
+  return {
+    recordType,
+    serial: decodeHybrid36(column(line, 7, 11)),
+    name: rawName.trim(),
+    altLoc: column(line, 17, 17).trim(),
+    residueName: column(line, 18, 20).trim(),
+    chainId: column(line, 22, 22).trim(),
+    residueNumber: decodeHybrid36(column(line, 23, 26)),
+    insertionCode: column(line, 27, 27).trim(),
+    position: [x, y, z],
+    occupancy: parseNumber(column(line, 55, 60), 1.0),
+    tempFactor: parseNumber(column(line, 61, 66), 0.0),
+    segmentId: column(line, 73, 76).trim(),
+    element:
+      column(line, 77, 78).trim().toUpperCase() ||
+      inferElement(rawName, recordType),
+    charge: parseCharge(column(line, 79, 80)),
+  };
+}
+
+function parseHeaderRecord(line: string): StructureHeader {
+  return {
+    classification: column(line, 11, 50).trim(),
+    depositionDate: column(line, 51, 59).trim(),
+    idCode: column(line, 63, 66).trim(),
+  };
+}
+
+// Residue references in HELIX and SHEET records are a residue name, a blank,
+// the chain, then the sequence number and insertion code. HELIX leaves one
+// more blank column before the sequence number than SHEET does.
+function parseResidueRef(
+  line: string,
+  nameStart: number,
+  seqStart: number
+): ResidueRef {
+  return {
+    residueName: column(line, nameStart, nameStart + 2).trim(),
+    chainId: column(line, nameStart + 4, nameStart + 4).trim(),
+    residueNumber: decodeHybrid36(column(line, seqStart, seqStart + 3)),
+    insertionCode: column(line, seqStart + 4, seqStart + 4).trim(),
+  };
+}
+
+export function parseHelixRecord(line: string): HelixRecord {
+  return {
+    serial: parseInt(column(line, 8, 10), 10),
+    id: column(line, 12, 14).trim(),
+    start: parseResidueRef(line, 16, 22),
+    end: parseResidueRef(line, 28, 34),
+    helixClass: parseNumber(column(line, 39, 40), 1),
+    length: parseNumber(column(line, 72, 76), 0),
+  };
+}
+
+export function parseSheetRecord(line: string): SheetStrandRecord {
+  const currentAtom = column(line, 42, 45).trim();
+  const previousAtom = column(line, 57, 60).trim();
+
+  return {
+    strand: parseInt(column(line, 8, 10), 10),
+    sheetId: column(line, 12, 14).trim(),
+    strandCount: parseNumber(column(line, 15, 16), 0),
+    start: parseResidueRef(line, 18, 23),
+    end: parseResidueRef(line, 29, 34),
+    sense: parseNumber(column(line, 39, 40), 0),
+    registration:
+      currentAtom && previousAtom
+        ? {
+            currentAtom,
+            current: parseResidueRef(line, 46, 51),
+            previousAtom,
+            previous: parseResidueRef(line, 61, 66),
+          }
+        : null,
+  };
+}
+
+export function parseSsbondRecord(line: string): StructureConnection {
+  return {
+    type: "disulfide",
+    partner1: { ...parseResidueRef(line, 12, 18), atomName: "SG", altLoc: "" },
+    partner2: { ...parseResidueRef(line, 26, 32), atomName: "SG", altLoc: "" },
+    order: 1,
+    distance: parseNumber(column(line, 74, 78), 0),
+  };
+}
+
+// LINK records do not say what kind of link they describe; a metal on
+// either side is taken as coordination, anything else as covalent
+export function parseLinkRecord(line: string): StructureConnection {
+  const partner1 = {
+    ...parseResidueRef(line, 18, 23),
+    atomName: column(line, 13, 16).trim(),
+    altLoc: column(line, 17, 17).trim(),
+  };
+  const partner2 = {
+    ...parseResidueRef(line, 48, 53),
+    atomName: column(line, 43, 46).trim(),
+    altLoc: column(line, 47, 47).trim(),
+  };
+  const isMetal = (ref: { atomName: string; residueName: string }) =>
+    ref.atomName === ref.residueName && METAL_IONS.has(ref.residueName);
+
+  return {
+    type: isMetal(partner1) || isMetal(partner2) ? "metal" : "covalent",
+    partner1,
+    partner2,
+    order: 1,
+    distance: parseNumber(column(line, 74, 78), 0),
+  };
+}
+
+export interface ConectRecord {
+  serial: number;
+  bonded: number[];
+}
+
+export function parseConectRecord(line: string): ConectRecord {
+  const bonded: number[] = [];
+  for (let start = 12; start <= 27; start += 5) {
+    const field = column(line, start, start + 4);
+    if (field.trim() !== "") bonded.push(decodeHybrid36(field));
+  }
+  return { serial: decodeHybrid36(column(line, 7, 11)), bonded };
+}
+
+// CONECT records refer to atom serial numbers and apply to every model.
+// Most writers list each bond from both ends, so pairs are deduplicated.
+function applyConectRecords(model: StructureModel, records: ConectRecord[]) {
+  const indexBySerial = new Map<number, number>();
+  model.atoms.forEach((atom, index) => indexBySerial.set(atom.serial, index));
+
+  const seen = new Set<string>();
+  records.forEach(({ serial, bonded }) => {
+    const atom1 = indexBySerial.get(serial);
+    if (atom1 === undefined) return;
+
+    bonded.forEach((partner) => {
+      const atom2 = indexBySerial.get(partner);
+      if (atom2 === undefined || atom2 === atom1) return;
+
+      const key = atom1 < atom2 ? `${atom1}-${atom2}` : `${atom2}-${atom1}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      model.bonds.push({ atom1, atom2, order: 1 });
+    });
+  });
+}
+
+export function parsePdb(pdbContent: string): Structure {
+  const structure: Structure = {
+    header: null,
+    title: "",
+    models: [],
+    helices: [],
+    sheets: [],
+    connections: [],
+    diagnostics: [],
+  };
+  const titleParts: string[] = [];
+  const conectRecords: ConectRecord[] = [];
+  // Atoms outside MODEL/ENDMDL (single-model files) go into an implicit model
+  let model: StructureModel | null = null;
+  // Source line of every atom, per model, for diagnostics
+  const atomLines: number[][] = [];
+
+  const lines = pdbContent.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const lineNumber = index + 1;
+    const record = column(line, 1, 6).trim();
+
+    switch (record) {
+      case "HEADER":
+        structure.header = parseHeaderRecord(line);
+        break;
+      case "TITLE":
+        titleParts.push(column(line, 11, 80).trim());
+        break;
+      case "HELIX":
+        structure.helices.push(parseHelixRecord(line));
+        break;
+      case "SHEET":
+        structure.sheets.push(parseSheetRecord(line));
+        break;
+      case "SSBOND":
+        structure.connections.push(parseSsbondRecord(line));
+        break;
+      case "LINK":
+        structure.connections.push(parseLinkRecord(line));
+        break;
+      case "CONECT":
+        conectRecords.push(parseConectRecord(line));
+        break;
+      case "MODEL":
+        model = {
+          serial: parseNumber(
+            column(line, 11, 14),
+            structure.models.length + 1
+          ),
+          atoms: [],
+          bonds: [],
+        };
+        structure.models.push(model);
+        atomLines.push([]);
+        break;
+      case "ENDMDL":
+        model = null;
+        break;
+      case "ATOM":
+      case "HETATM": {
+        if (line.trimEnd().length < 54) {
+          structure.diagnostics.push({
+            severity: "error",
+            line: lineNumber,
+            message: `Truncated ${record} record: coordinates end at column 54, line has ${
+              line.trimEnd().length
+            }`,
+          });
+          break;
+        }
+
+        const atom = parseAtomRecord(line);
+        if (!atom || !checkAtom(atom, lineNumber, structure.diagnostics)) {
+          break;
+        }
+
+        if (!model) {
+          model = {
+            serial: structure.models.length + 1,
+            atoms: [],
+            bonds: [],
+          };
+          structure.models.push(model);
+          atomLines.push([]);
+        }
+        model.atoms.push(atom);
+        atomLines[atomLines.length - 1].push(lineNumber);
+        break;
+      }
+    }
+  }
+
+  structure.title = titleParts.join(" ");
+  structure.models.forEach((m, i) =>
+    checkDuplicateAtomNames(m.atoms, atomLines[i], structure.diagnostics)
+  );
+  checkHasAtoms(structure);
+  if (conectRecords.length > 0) {
+    structure.models.forEach((m) => applyConectRecords(m, conectRecords));
+  }
+  return structure;
+}
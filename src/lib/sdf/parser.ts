@@ -0,0 +1,339 @@
+// src/lib/sdf/parser.ts
+//
+// MDL molfile (V2000 and V3000) and SD file reader. Each SDF record becomes
+// one model of the structure, keeping its bonds and data items.
+
+import {
+  DataField,
+  ParseDiagnostic,
+  Structure,
+  StructureAtom,
+  StructureBond,
+  StructureModel,
+} from "../structure/types";
+import { checkAtom, checkHasAtoms } from "../structure/diagnostics";
+
+// Residue name the PDB uses for unknown ligands
+const LIGAND_RESIDUE_NAME = "UNL";
+
+// V2000 atom block charge codes; 4 marks a doublet radical, not a charge
+const V2000_CHARGES: Record<number, number> = {
+  1: 3,
+  2: 2,
+  3: 1,
+  5: -1,
+  6: -2,
+  7: -3,
+};
+
+function createAtom(
+  index: number,
+  symbol: string,
+  position: [number, number, number],
+  charge: number
+): StructureAtom {
+  const element = symbol.toUpperCase();
+  return {
+    recordType: "HETATM",
+    serial: index + 1,
+    name: `${element}${index + 1}`,
+    altLoc: "",
+    residueName: LIGAND_RESIDUE_NAME,
+    chainId: "",
+    residueNumber: 1,
+    insertionCode: "",
+    position,
+    occupancy: 1.0,
+    tempFactor: 0.0,
+    segmentId: "",
+    element,
+    charge,
+  };
+}
+
+// Query and "any" bond types (5-8) are drawn as single bonds
+function bondOrder(type: number): number {
+  return type >= 1 && type <= 4 ? type : 1;
+}
+
+interface MolBlock {
+  atoms: StructureAtom[];
+  atomLines: number[]; // Index into the record's lines of every atom
+  bonds: StructureBond[];
+  end: number;
+}
+
+function parseV2000(lines: string[]): MolBlock {
+  const counts = lines[3] ?? "";
+  const atomCount = parseInt(counts.slice(0, 3), 10);
+  const bondCount = parseInt(counts.slice(3, 6), 10);
+  if (Number.isNaN(atomCount) || Number.isNaN(bondCount)) {
+    throw new Error(`Invalid molfile counts line: "${counts.trim()}"`);
+  }
+
+  const atoms: StructureAtom[] = [];
+  const atomLines: number[] = [];
+  for (let i = 0; i < atomCount; i++) {
+    const line = lines[4 + i];
+    if (line === undefined) {
+      throw new Error(`Molfile ends inside the atom block at atom ${i + 1}`);
+    }
+
+    const position: [number, number, number] = [
+      parseFloat(line.slice(0, 10)),
+      parseFloat(line.slice(10, 20)),
+      parseFloat(line.slice(20, 30)),
+    ];
+    const chargeCode = parseInt(line.slice(36, 39), 10);
+    atoms.push(
+      createAtom(
+        i,
+        line.slice(31, 34).trim(),
+        position,
+        V2000_CHARGES[chargeCode] ?? 0
+      )
+    );
+    atomLines.push(4 + i);
+  }
+
+  const bonds: StructureBond[] = [];
+  const bondStart = 4 + atomCount;
+  for (let i = 0; i < bondCount; i++) {
+    const line = lines[bondStart + i];
+    if (line === undefined) {
+      throw new Error(`Molfile ends inside the bond block at bond ${i + 1}`);
+    }
+
+    bonds.push({
+      atom1: parseInt(line.slice(0, 3), 10) - 1,
+      atom2: parseInt(line.slice(3, 6), 10) - 1,
+      order: bondOrder(parseInt(line.slice(6, 9), 10)),
+    });
+  }
+
+  // Properties block. Any "M  CHG" line replaces all atom block charges.
+  let index = bondStart + bondCount;
+  let chargesReset = false;
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.startsWith("M  END")) {
+      index++;
+      break;
+    }
+    if (line.startsWith("M  CHG")) {
+      if (!chargesReset) {
+        atoms.forEach((atom) => (atom.charge = 0));
+        chargesReset = true;
+      }
+      const values = line.slice(6).trim().split(/\s+/).map(Number);
+      for (let k = 1; k + 1 < values.length; k += 2) {
+        const atom = atoms[values[k] - 1];
+        if (atom) atom.charge = values[k + 1];
+      }
+    }
+  }
+
+  return { atoms, atomLines, bonds, end: index };
+}
+
+// Splits a V3000 line into fields, keeping quoted and parenthesised groups
+// together, and returns the KEY=value properties separately
+function splitV3000(line: string): {
+  fields: string[];
+  properties: Map<string, string>;
+} {
+  const tokens = line.match(/"[^"]*"|\([^)]*\)|\S+/g) ?? [];
+  const fields: string[] = [];
+  const properties = new Map<string, string>();
+
+  for (const token of tokens) {
+    const equals = token.indexOf("=");
+    if (equals > 0 && token[0] !== '"') {
+      properties.set(
+        token.slice(0, equals).toUpperCase(),
+        token.slice(equals + 1)
+      );
+    } else {
+      fields.push(token);
+    }
+  }
+
+  return { fields, properties };
+}
+
+function parseV3000(lines: string[]): MolBlock {
+  const atoms: StructureAtom[] = [];
+  const atomLines: number[] = [];
+  const bonds: StructureBond[] = [];
+  // Atom numbers in the bond block refer to the atom index column
+  const atomIndices = new Map<number, number>();
+  let block = "";
+  let index = 4;
+
+  for (; index < lines.length; index++) {
+    let line = lines[index];
+    if (line.startsWith("M  END")) {
+      index++;
+      break;
+    }
+    if (!line.startsWith("M  V30 ")) continue;
+    const entryStart = index;
+
+    // A trailing "-" continues the entry on the next line
+    let content = line.slice(7);
+    while (content.endsWith("-") && index + 1 < lines.length) {
+      line = lines[++index];
+      content = content.slice(0, -1) + line.slice(7);
+    }
+    content = content.trim();
+
+    const keyword = content.toUpperCase();
+    if (keyword.startsWith("BEGIN ")) {
+      block = keyword.slice(6).trim();
+      continue;
+    }
+    if (keyword.startsWith("END ")) {
+      block = "";
+      continue;
+    }
+
+    const { fields, properties } = splitV3000(content);
+    if (block === "ATOM") {
+      const atomIndex = parseInt(fields[0], 10);
+      atomIndices.set(atomIndex, atoms.length);
+      atoms.push(
+        createAtom(
+          atoms.length,
+          fields[1].replace(/"/g, ""),
+          [parseFloat(fields[2]), parseFloat(fields[3]), parseFloat(fields[4])],
+          parseInt(properties.get("CHG") ?? "0", 10)
+        )
+      );
+      atomLines.push(entryStart);
+    } else if (block === "BOND") {
+      bonds.push({
+        atom1: parseInt(fields[2], 10),
+        atom2: parseInt(fields[3], 10),
+        order: bondOrder(parseInt(fields[1], 10)),
+      });
+    }
+  }
+
+  for (const bond of bonds) {
+    bond.atom1 = atomIndices.get(bond.atom1) ?? -1;
+    bond.atom2 = atomIndices.get(bond.atom2) ?? -1;
+  }
+
+  return {
+    atoms,
+    atomLines,
+    bonds: bonds.filter((bond) => bond.atom1 >= 0 && bond.atom2 >= 0),
+    end: index,
+  };
+}
+
+// "> <NAME>" (optionally with registry numbers) followed by value lines up
+// to a blank line
+function parseDataFields(lines: string[]): DataField[] {
+  const fields: DataField[] = [];
+  let current: DataField | null = null;
+  const values: string[] = [];
+
+  for (const line of lines) {
+    if (line.startsWith(">")) {
+      const name = line.match(/<([^>]*)>/);
+      current = { name: name ? name[1] : line.slice(1).trim(), value: "" };
+      values.length = 0;
+      fields.push(current);
+    } else if (current) {
+      if (line.trim() === "") {
+        current = null;
+      } else {
+        values.push(line);
+        current.value = values.join("\n");
+      }
+    }
+  }
+
+  return fields;
+}
+
+// firstLine is the 1-based file line of the record's header line
+export function parseMolRecord(
+  lines: string[],
+  serial: number,
+  firstLine: number = 1,
+  diagnostics: ParseDiagnostic[] = []
+): StructureModel {
+  const isV3000 = (lines[3] ?? "").toUpperCase().includes("V3000");
+  const block = isV3000 ? parseV3000(lines) : parseV2000(lines);
+
+  // Atoms that fail the checks are dropped, so bonds are renumbered
+  const atoms: StructureAtom[] = [];
+  const newIndices = block.atoms.map((atom, i) => {
+    if (!checkAtom(atom, firstLine + block.atomLines[i], diagnostics)) {
+      return -1;
+    }
+    atoms.push(atom);
+    return atoms.length - 1;
+  });
+  const bonds = block.bonds
+    .map((bond) => ({
+      ...bond,
+      atom1: newIndices[bond.atom1] ?? -1,
+      atom2: newIndices[bond.atom2] ?? -1,
+    }))
+    .filter((bond) => bond.atom1 >= 0 && bond.atom2 >= 0);
+
+  return {
+    serial,
+    name: (lines[0] ?? "").trim(),
+    atoms,
+    bonds,
+    dataFields: parseDataFields(lines.slice(block.end)),
+  };
+}
+
+export function parseSdf(sdfContent: string): Structure {
+  const records: { lines: string[]; firstLine: number }[] = [
+    { lines: [], firstLine: 1 },
+  ];
+  sdfContent.split(/\r?\n/).forEach((line, index) => {
+    if (line.startsWith("$$$$")) {
+      records.push({ lines: [], firstLine: index + 2 });
+    } else {
+      records[records.length - 1].lines.push(line);
+    }
+  });
+
+  // A malformed record is reported and skipped; the others still load
+  const diagnostics: ParseDiagnostic[] = [];
+  const models: StructureModel[] = [];
+  records
+    .filter(({ lines }) => lines.some((line) => line.trim() !== ""))
+    .forEach(({ lines, firstLine }, index) => {
+      try {
+        models.push(parseMolRecord(lines, index + 1, firstLine, diagnostics));
+      } catch (error) {
+        diagnostics.push({
+          severity: "error",
+          line: firstLine,
+          message: `Record ${index + 1} skipped: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        });
+      }
+    });
+
+  const structure: Structure = {
+    header: null,
+    title: models[0]?.name ?? "",
+    models,
+    helices: [],
+    sheets: [],
+    connections: [],
+    diagnostics,
+  };
+  checkHasAtoms(structure);
+  return structure;
+}
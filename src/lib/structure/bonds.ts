@@ -0,0 +1,422 @@
+// src/lib/structure/bonds.ts
+//
+// Bond perception. Explicit bonds (SDF bond blocks, PDB CONECT records) are
+// kept as given, standard residues are connected from templates, SSBOND/LINK
+// and _struct_conn connections are resolved to atoms, and all remaining
+// atoms are bonded by covalent radii using a spatial grid.
+
+import { residueKey } from "./secondaryStructure";
+import { AtomRef, Structure, StructureAtom, StructureBond } from "./types";
+
+// Single-bond covalent radii in Å (Cordero et al., 2008)
+const COVALENT_RADII: Record<string, number> = {
+  H: 0.31,
+  B: 0.84,
+  C: 0.76,
+  N: 0.71,
+  O: 0.66,
+  F: 0.57,
+  SI: 1.11,
+  P: 1.07,
+  S: 1.05,
+  CL: 1.02,
+  SE: 1.2,
+  BR: 1.2,
+  I: 1.39,
+};
+const DEFAULT_COVALENT_RADIUS = 0.76;
+const BOND_TOLERANCE = 0.4;
+const MIN_BOND_DISTANCE = 0.4;
+
+// Ions are only bonded through LINK/_struct_conn records; by distance alone
+// every coordinating atom would be joined to them
+const NON_BONDING_ELEMENTS = new Set([
+  "LI",
+  "NA",
+  "K",
+  "RB",
+  "CS",
+  "MG",
+  "CA",
+  "SR",
+  "BA",
+  "MN",
+  "FE",
+  "CO",
+  "NI",
+  "CU",
+  "ZN",
+  "CD",
+  "HG",
+]);
+
+// Heavy atom templates as "A-B" (single) or "A=B" (double) pairs
+const AMINO_ACID_BACKBONE = "N-CA CA-C C=O C-OXT";
+const AMINO_ACID_SIDE_CHAINS: Record<string, string> = {
+  ALA: "CA-CB",
+  ARG: "CA-CB CB-CG CG-CD CD-NE NE-CZ CZ-NH1 CZ=NH2",
+  ASN: "CA-CB CB-CG CG=OD1 CG-ND2",
+  ASP: "CA-CB CB-CG CG=OD1 CG-OD2",
+  CYS: "CA-CB CB-SG",
+  GLN: "CA-CB CB-CG CG-CD CD=OE1 CD-NE2",
+  GLU: "CA-CB CB-CG CG-CD CD=OE1 CD-OE2",
+  GLY: "",
+  HIS: "CA-CB CB-CG CG-ND1 CG=CD2 ND1=CE1 CE1-NE2 NE2-CD2",
+  ILE: "CA-CB CB-CG1 CB-CG2 CG1-CD1",
+  LEU: "CA-CB CB-CG CG-CD1 CG-CD2",
+  LYS: "CA-CB CB-CG CG-CD CD-CE CE-NZ",
+  MET: "CA-CB CB-CG CG-SD SD-CE",
+  MSE: "CA-CB CB-CG CG-SE SE-CE",
+  PHE: "CA-CB CB-CG CG=CD1 CG-CD2 CD1-CE1 CD2=CE2 CE1=CZ CE2-CZ",
+  PRO: "CA-CB CB-CG CG-CD CD-N",
+  SER: "CA-CB CB-OG",
+  THR: "CA-CB CB-OG1 CB-CG2",
+  TRP:
+    "CA-CB CB-CG CG=CD1 CG-CD2 CD1-NE1 NE1-CE2 CD2=CE2 CD2-CE3 CE2-CZ2 " +
+    "CE3=CZ3 CZ2=CH2 CZ3-CH2",
+  TYR: "CA-CB CB-CG CG=CD1 CG-CD2 CD1-CE1 CD2=CE2 CE1=CZ CE2-CZ CZ-OH",
+  VAL: "CA-CB CB-CG1 CB-CG2",
+};
+
+// O1P/O2P are the pre-remediation names of OP1/OP2
+const SUGAR_PHOSPHATE =
+  "P-OP1 P=OP2 P-O1P P=O2P P-O5' O5'-C5' C5'-C4' C4'-O4' C4'-C3' C3'-O3' " +
+  "C3'-C2' C2'-O2' C2'-C1' C1'-O4'";
+const BASES: Record<string, string> = {
+  A: "C1'-N9 N9-C8 C8=N7 N7-C5 C5=C6 C6-N6 C6-N1 N1=C2 C2-N3 N3=C4 C4-C5 C4-N9",
+  G: "C1'-N9 N9-C8 C8=N7 N7-C5 C5-C6 C6=O6 C6-N1 N1-C2 C2-N2 C2=N3 N3-C4 C4=C5 C4-N9",
+  C: "C1'-N1 N1-C2 C2=O2 C2-N3 N3=C4 C4-N4 C4-C5 C5=C6 C6-N1",
+  U: "C1'-N1 N1-C2 C2=O2 C2-N3 N3-C4 C4=O4 C4-C5 C5=C6 C6-N1",
+  T: "C1'-N1 N1-C2 C2=O2 C2-N3 N3-C4 C4=O4 C4-C5 C5=C6 C6-N1 C5-C7",
+};
+const NUCLEOTIDES: Record<string, string> = {
+  A: "A",
+  DA: "A",
+  G: "G",
+  DG: "G",
+  C: "C",
+  DC: "C",
+  U: "U",
+  DU: "U",
+  DT: "T",
+};
+
+interface TemplateBond {
+  atom1: string;
+  atom2: string;
+  order: number;
+}
+
+function parseTemplate(pairs: string): TemplateBond[] {
+  return pairs
+    .split(" ")
+    .filter((pair) => pair !== "")
+    .map((pair) => {
+      const [atom1, atom2] = pair.split(/[-=]/);
+      return { atom1, atom2, order: pair.includes("=") ? 2 : 1 };
+    });
+}
+
+const RESIDUE_TEMPLATES = new Map<string, TemplateBond[]>();
+Object.entries(AMINO_ACID_SIDE_CHAINS).forEach(([name, sideChain]) => {
+  RESIDUE_TEMPLATES.set(
+    name,
+    parseTemplate(`${AMINO_ACID_BACKBONE} ${sideChain}`)
+  );
+});
+Object.entries(NUCLEOTIDES).forEach(([name, base]) => {
+  RESIDUE_TEMPLATES.set(
+    name,
+    parseTemplate(`${SUGAR_PHOSPHATE} ${BASES[base]}`)
+  );
+});
+
+// Peptide and phosphodiester bonds to the previous residue, with the longest
+// accepted length; longer ones are chain breaks
+const POLYMER_LINKS: [string, string, number][] = [
+  ["C", "N", 1.75],
+  ["O3'", "P", 1.9],
+];
+
+interface Residue {
+  chainId: string;
+  residueName: string;
+  start: number; // Index of the first atom
+  end: number; // One past the last atom
+}
+
+function atomsByName(residue: Residue, atoms: StructureAtom[]) {
+  const named = new Map<string, number[]>();
+  for (let index = residue.start; index < residue.end; index++) {
+    const indices = named.get(atoms[index].name);
+    if (indices) {
+      indices.push(index);
+    } else {
+      named.set(atoms[index].name, [index]);
+    }
+  }
+  return named;
+}
+
+function distance(a: StructureAtom, b: StructureAtom): number {
+  const dx = a.position[0] - b.position[0];
+  const dy = a.position[1] - b.position[1];
+  const dz = a.position[2] - b.position[2];
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+// Atoms of different alternate locations of a residue never bond to each
+// other. Labels of different residues are unrelated, since each residue
+// picks its conformer on its own, so they do not restrict bonds between
+// residues. The residue name is left out: microheterogeneity puts two
+// residue types at one position.
+function sameConformer(a: StructureAtom, b: StructureAtom): boolean {
+  return (
+    a.altLoc === "" ||
+    b.altLoc === "" ||
+    a.altLoc === b.altLoc ||
+    a.residueNumber !== b.residueNumber ||
+    a.chainId !== b.chainId ||
+    a.insertionCode !== b.insertionCode
+  );
+}
+
+function sameResidue(a: StructureAtom, b: StructureAtom): boolean {
+  return (
+    a.residueNumber === b.residueNumber &&
+    a.chainId === b.chainId &&
+    a.insertionCode === b.insertionCode &&
+    a.residueName === b.residueName
+  );
+}
+
+// Consecutive atoms with the same chain, number and insertion code
+function groupResidues(atoms: StructureAtom[]): Residue[] {
+  const residues: Residue[] = [];
+  let current: Residue | null = null;
+
+  atoms.forEach((atom, index) => {
+    if (!current || !sameResidue(atom, atoms[index - 1])) {
+      current = {
+        chainId: atom.chainId,
+        residueName: atom.residueName,
+        start: index,
+        end: index,
+      };
+      residues.push(current);
+    }
+    current.end = index + 1;
+  });
+
+  return residues;
+}
+
+export function perceiveBonds(
+  structure: Structure,
+  modelIndex: number
+): StructureBond[] {
+  const model = structure.models[modelIndex];
+  if (!model) return [];
+
+  const atoms = model.atoms;
+  const bonds: StructureBond[] = [];
+  // Numeric pair keys stay exact up to ~9e7 atoms and keep large
+  // assemblies fast
+  const seen = new Set<number>();
+  const addBond = (atom1: number, atom2: number, order: number) => {
+    if (atom1 === atom2 || !sameConformer(atoms[atom1], atoms[atom2])) return;
+    const key =
+      atom1 < atom2
+        ? atom1 * atoms.length + atom2
+        : atom2 * atoms.length + atom1;
+    if (seen.has(key)) return;
+    seen.add(key);
+    bonds.push({ atom1, atom2, order });
+  };
+
+  // Explicit bonds. Atoms that have any are taken to be fully specified.
+  const explicit = new Uint8Array(atoms.length);
+  model.bonds.forEach(({ atom1, atom2, order }) => {
+    if (!atoms[atom1] || !atoms[atom2]) return;
+    explicit[atom1] = explicit[atom2] = 1;
+    addBond(atom1, atom2, order);
+  });
+
+  // Residue templates, plus peptide and phosphodiester links to the
+  // previous residue of the same chain
+  const covered = new Uint8Array(atoms.length);
+  const residues = groupResidues(atoms);
+  // Name lookup of the previous residue, only kept when it had a template
+  let previousNamed: Map<string, number[]> | null = null;
+  residues.forEach((residue, r) => {
+    const template = RESIDUE_TEMPLATES.get(residue.residueName);
+    const previous = residues[r - 1];
+    const previousLookup = previousNamed;
+    previousNamed = null;
+    if (!template) return;
+
+    const named = atomsByName(residue, atoms);
+    previousNamed = named;
+    template.forEach(({ atom1, atom2, order }) => {
+      const first = named.get(atom1);
+      const second = named.get(atom2);
+      if (!first || !second) return;
+      first.forEach((i) => (covered[i] = 1));
+      second.forEach((j) => (covered[j] = 1));
+      first.forEach((i) => second.forEach((j) => addBond(i, j, order)));
+    });
+
+    if (!previousLookup || previous.chainId !== residue.chainId) return;
+
+    POLYMER_LINKS.forEach(([name1, name2, maxDistance]) => {
+      const first = previousLookup.get(name1) ?? [];
+      const second = named.get(name2) ?? [];
+      first.forEach((i) =>
+        second.forEach((j) => {
+          if (distance(atoms[i], atoms[j]) <= maxDistance) addBond(i, j, 1);
+        })
+      );
+    });
+  });
+
+  // SSBOND/LINK records and _struct_conn; hydrogen bonds are not drawn
+  const atomIndices = new Map<string, number[]>();
+  if (structure.connections.length > 0) {
+    atoms.forEach((atom, index) => {
+      const key = `${residueKey(
+        atom.chainId,
+        atom.residueNumber,
+        atom.insertionCode
+      )}:${atom.name}`;
+      const indices = atomIndices.get(key) ?? [];
+      indices.push(index);
+      atomIndices.set(key, indices);
+    });
+  }
+  const resolve = (ref: AtomRef) =>
+    (
+      atomIndices.get(
+        `${residueKey(ref.chainId, ref.residueNumber, ref.insertionCode)}:${
+          ref.atomName
+        }`
+      ) ?? []
+    ).filter(
+      (index) => ref.altLoc === "" || atoms[index].altLoc === ref.altLoc
+    );
+
+  structure.connections.forEach((connection) => {
+    if (connection.type === "hydrogen") return;
+    resolve(connection.partner1).forEach((i) =>
+      resolve(connection.partner2).forEach((j) =>
+        addBond(i, j, connection.order)
+      )
+    );
+  });
+
+  // Everything else by covalent radii. The grid holds every atom that can
+  // bond; only pairs with at least one atom outside the templates and
+  // without explicit bonds are tested. Typed arrays keep this pass fast on
+  // assemblies with millions of atoms.
+  const count = atoms.length;
+  const radii = new Float32Array(count);
+  const bondable = new Uint8Array(count);
+  let maxRadius = 0;
+  const lower = [Infinity, Infinity, Infinity];
+  const upper = [-Infinity, -Infinity, -Infinity];
+  atoms.forEach(({ element, position }, index) => {
+    radii[index] = COVALENT_RADII[element] ?? DEFAULT_COVALENT_RADIUS;
+    if (explicit[index] || NON_BONDING_ELEMENTS.has(element)) return;
+
+    bondable[index] = 1;
+    maxRadius = Math.max(maxRadius, radii[index]);
+    for (let axis = 0; axis < 3; axis++) {
+      lower[axis] = Math.min(lower[axis], position[axis]);
+      upper[axis] = Math.max(upper[axis], position[axis]);
+    }
+  });
+
+  // Cells are numbered from the lower corner of the bounding box, with a
+  // margin of one cell so neighbours never wrap around. Cell numbers are
+  // hashed into a table twice the size of the atom count; two cells sharing
+  // a bucket only cost extra distance checks.
+  const cellSize = 2 * maxRadius + BOND_TOLERANCE;
+  const dims = upper.map(
+    (max, axis) => Math.floor((max - lower[axis]) / cellSize) + 3
+  );
+  let tableSize = 1;
+  while (tableSize < count * 2) tableSize *= 2;
+  const bucketOf = (x: number, y: number, z: number) =>
+    (x + dims[0] * (y + dims[1] * z)) % tableSize;
+
+  const cellCoords = new Int32Array(count * 3);
+  const bucketStarts = new Int32Array(tableSize + 1);
+  for (let i = 0; i < count; i++) {
+    if (!bondable[i]) continue;
+    const { position } = atoms[i];
+    for (let axis = 0; axis < 3; axis++) {
+      cellCoords[i * 3 + axis] =
+        Math.floor((position[axis] - lower[axis]) / cellSize) + 1;
+    }
+    const bucket = bucketOf(
+      cellCoords[i * 3],
+      cellCoords[i * 3 + 1],
+      cellCoords[i * 3 + 2]
+    );
+    bucketStarts[bucket + 1]++;
+  }
+  for (let bucket = 0; bucket < tableSize; bucket++) {
+    bucketStarts[bucket + 1] += bucketStarts[bucket];
+  }
+  const bucketAtoms = new Int32Array(bucketStarts[tableSize]);
+  const fill = bucketStarts.slice(0, tableSize);
+  for (let i = 0; i < count; i++) {
+    if (!bondable[i]) continue;
+    const bucket = bucketOf(
+      cellCoords[i * 3],
+      cellCoords[i * 3 + 1],
+      cellCoords[i * 3 + 2]
+    );
+    bucketAtoms[fill[bucket]++] = i;
+  }
+
+  const minDistanceSq = MIN_BOND_DISTANCE * MIN_BOND_DISTANCE;
+  for (let i = 0; i < count; i++) {
+    if (covered[i] || !bondable[i]) continue;
+    const [x, y, z] = atoms[i].position;
+    const cx = cellCoords[i * 3];
+    const cy = cellCoords[i * 3 + 1];
+    const cz = cellCoords[i * 3 + 2];
+
+    for (let dz = -1; dz <= 1; dz++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const bucket = bucketOf(cx + dx, cy + dy, cz + dz);
+          for (
+            let k = bucketStarts[bucket];
+            k < bucketStarts[bucket + 1];
+            k++
+          ) {
+            const j = bucketAtoms[k];
+            // Pairs of two perceived atoms are visited from both ends
+            if (j === i || (!covered[j] && j < i)) continue;
+
+            const position = atoms[j].position;
+            const ex = position[0] - x;
+            const ey = position[1] - y;
+            const ez = position[2] - z;
+            const distanceSq = ex * ex + ey * ey + ez * ez;
+            const maxDistance = radii[i] + radii[j] + BOND_TOLERANCE;
+            if (
+              distanceSq >= minDistanceSq &&
+              distanceSq <= maxDistance * maxDistance
+            ) {
+              addBond(i, j, 1);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return bonds;
+}
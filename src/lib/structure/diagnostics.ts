@@ -0,0 +1,88 @@
+// src/lib/structure/diagnostics.ts
+//
+// Checks shared by all format parsers. Problems are collected as
+// diagnostics with line numbers rather than thrown, so one bad record does
+// not stop the rest of the file from loading.
+
+import { ParseDiagnostic, Structure, StructureAtom } from "./types";
+
+// D is deuterium, common in neutron structures
+const ELEMENT_SYMBOLS = new Set(
+  (
+    "H D HE LI BE B C N O F NE NA MG AL SI P S CL AR K CA SC TI V CR MN FE " +
+    "CO NI CU ZN GA GE AS SE BR KR RB SR Y ZR NB MO TC RU RH PD AG CD IN SN " +
+    "SB TE I XE CS BA LA CE PR ND PM SM EU GD TB DY HO ER TM YB LU HF TA W " +
+    "RE OS IR PT AU HG TL PB BI PO AT RN FR RA AC TH PA U NP PU AM CM BK CF " +
+    "ES FM MD NO LR RF DB SG BH HS MT DS RG CN NH FL MC LV TS OG"
+  ).split(" ")
+);
+
+export function isKnownElement(element: string): boolean {
+  return ELEMENT_SYMBOLS.has(element.toUpperCase());
+}
+
+// Returns false when the atom cannot be drawn and should be dropped
+export function checkAtom(
+  atom: StructureAtom,
+  line: number | null,
+  diagnostics: ParseDiagnostic[]
+): boolean {
+  if (!atom.position.every(Number.isFinite)) {
+    diagnostics.push({
+      severity: "error",
+      line,
+      message: `Non-numeric coordinates for atom ${atom.name || atom.serial}`,
+    });
+    return false;
+  }
+
+  if (!isKnownElement(atom.element)) {
+    diagnostics.push({
+      severity: "warning",
+      line,
+      message: atom.element
+        ? `Unknown element "${atom.element}" for atom ${atom.name}`
+        : `No element for atom ${atom.name}`,
+    });
+  }
+  return true;
+}
+
+// The same atom name twice in one residue (and alternate location) usually
+// means two residues were given the same number. lines[i] is the source
+// line of atoms[i].
+export function checkDuplicateAtomNames(
+  atoms: StructureAtom[],
+  lines: (number | null)[],
+  diagnostics: ParseDiagnostic[]
+) {
+  const seen = new Set<string>();
+  atoms.forEach((atom, index) => {
+    const key = [
+      atom.chainId,
+      atom.residueNumber,
+      atom.insertionCode,
+      atom.residueName,
+      atom.altLoc,
+      atom.name,
+    ].join(":");
+    if (seen.has(key)) {
+      diagnostics.push({
+        severity: "warning",
+        line: lines[index] ?? null,
+        message: `Duplicate atom name ${atom.name} in residue ${atom.residueName} ${atom.chainId}${atom.residueNumber}${atom.insertionCode}`,
+      });
+    }
+    seen.add(key);
+  });
+}
+
+export function checkHasAtoms(structure: Structure) {
+  if (!structure.models.some((model) => model.atoms.length > 0)) {
+    structure.diagnostics.push({
+      severity: "error",
+      line: null,
+      message: "No atoms found",
+    });
+  }
+}
@@ -0,0 +1,350 @@
+// src/lib/structure/dssp.ts
+//
+// Secondary structure assignment after Kabsch & Sander (1983), "Dictionary of
+// protein secondary structure". Only backbone N, CA, C and O positions are
+// used, so it works for models and predictions that carry no HELIX/SHEET
+// records.
+
+import { residueKey } from "./secondaryStructure";
+import { SecondaryStructure, StructureAtom } from "./types";
+
+// H: alpha helix, G: 3-10 helix, I: pi helix, E: strand, B: isolated bridge,
+// T: hydrogen-bonded turn, S: bend, " ": none
+export type DsspCode = "H" | "G" | "I" | "E" | "B" | "T" | "S" | " ";
+
+type Vec3 = [number, number, number];
+
+interface BackboneResidue {
+  key: string;
+  chainId: string;
+  n: Vec3;
+  ca: Vec3;
+  c: Vec3;
+  o: Vec3;
+  h: Vec3 | null; // Amide hydrogen, placed from the previous peptide plane
+  isProline: boolean;
+  chainBreakBefore: boolean;
+}
+
+interface HBond {
+  acceptor: number; // Residue index of the C=O
+  energy: number;
+}
+
+// Electrostatic constant of the model: q1 * q2 * f = 0.42e * 0.20e * 332
+const COUPLING = 0.084 * 332;
+const HBOND_CUTOFF = -0.5; // kcal/mol
+const MIN_ENERGY = -9.9;
+const MAX_CA_DISTANCE = 9.0; // No backbone H-bond beyond this CA-CA distance
+const MAX_PEPTIDE_BOND = 2.5;
+
+function distance(a: Vec3, b: Vec3): number {
+  const dx = a[0] - b[0];
+  const dy = a[1] - b[1];
+  const dz = a[2] - b[2];
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+// HETATM residues are collected too: modified amino acids such as MSE sit
+// inside the chain, and leaving them out would break its helices and
+// strands. Ligands and waters lack a full N/CA/C/O backbone and are dropped
+// with the other incomplete residues.
+function collectBackbone(atoms: StructureAtom[]): BackboneResidue[] {
+  const residues: BackboneResidue[] = [];
+  const partial = new Map<string, Partial<Record<string, Vec3>>>();
+  const order: { key: string; chainId: string; residueName: string }[] = [];
+
+  for (const atom of atoms) {
+    if (!["N", "CA", "C", "O"].includes(atom.name)) continue;
+    const key = residueKey(
+      atom.chainId,
+      atom.residueNumber,
+      atom.insertionCode
+    );
+    let entry = partial.get(key);
+    if (!entry) {
+      entry = {};
+      partial.set(key, entry);
+      order.push({ key, chainId: atom.chainId, residueName: atom.residueName });
+    }
+    // Keep the first alternate location of each backbone atom
+    if (!entry[atom.name]) {
+      entry[atom.name] = atom.position;
+    }
+  }
+
+  for (const { key, chainId, residueName } of order) {
+    const entry = partial.get(key);
+    if (!entry?.N || !entry.CA || !entry.C || !entry.O) continue;
+
+    const previous = residues[residues.length - 1];
+    const chainBreakBefore =
+      !previous ||
+      previous.chainId !== chainId ||
+      distance(previous.c, entry.N) > MAX_PEPTIDE_BOND;
+
+    residues.push({
+      key,
+      chainId,
+      n: entry.N,
+      ca: entry.CA,
+      c: entry.C,
+      o: entry.O,
+      h: null,
+      isProline: residueName === "PRO",
+      chainBreakBefore,
+    });
+  }
+
+  // The amide H lies 1 A from N, opposite the previous residue's C=O
+  for (let i = 1; i < residues.length; i++) {
+    const residue = residues[i];
+    if (residue.chainBreakBefore || residue.isProline) continue;
+
+    const previous = residues[i - 1];
+    const co: Vec3 = [
+      previous.c[0] - previous.o[0],
+      previous.c[1] - previous.o[1],
+      previous.c[2] - previous.o[2],
+    ];
+    const length = Math.sqrt(co[0] * co[0] + co[1] * co[1] + co[2] * co[2]);
+    if (length === 0) continue;
+
+    residue.h = [
+      residue.n[0] + co[0] / length,
+      residue.n[1] + co[1] / length,
+      residue.n[2] + co[2] / length,
+    ];
+  }
+
+  return residues;
+}
+
+// Energy of the hydrogen bond from the N-H of the donor to the C=O of the
+// acceptor, in kcal/mol
+export function hbondEnergy(
+  acceptor: { c: Vec3; o: Vec3 },
+  donor: { n: Vec3; h: Vec3 }
+): number {
+  const rON = distance(acceptor.o, donor.n);
+  const rCH = distance(acceptor.c, donor.h);
+  const rOH = distance(acceptor.o, donor.h);
+  const rCN = distance(acceptor.c, donor.n);
+
+  if (rON === 0 || rCH === 0 || rOH === 0 || rCN === 0) {
+    return MIN_ENERGY;
+  }
+
+  const energy = COUPLING * (1 / rON + 1 / rCH - 1 / rOH - 1 / rCN);
+  return Math.max(energy, MIN_ENERGY);
+}
+
+// For every donor, the two strongest acceptors below the cutoff (as in DSSP)
+function computeHBonds(residues: BackboneResidue[]): HBond[][] {
+  const bonds: HBond[][] = residues.map(() => []);
+
+  // Bucket CA atoms into a grid so only nearby pairs are evaluated
+  const grid = new Map<string, number[]>();
+  const cellOf = (p: Vec3) =>
+    p.map((v) => Math.floor(v / MAX_CA_DISTANCE)) as Vec3;
+
+  residues.forEach((residue, index) => {
+    const key = cellOf(residue.ca).join(",");
+    const cell = grid.get(key) ?? [];
+    cell.push(index);
+    grid.set(key, cell);
+  });
+
+  residues.forEach((donor, j) => {
+    if (!donor.h) return;
+    const [cx, cy, cz] = cellOf(donor.ca);
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const cell = grid.get(`${cx + dx},${cy + dy},${cz + dz}`);
+          if (!cell) continue;
+
+          for (const i of cell) {
+            if (Math.abs(i - j) < 2) continue;
+            if (distance(residues[i].ca, donor.ca) > MAX_CA_DISTANCE) continue;
+
+            const energy = hbondEnergy(residues[i], {
+              n: donor.n,
+              h: donor.h,
+            });
+            if (energy < HBOND_CUTOFF) {
+              bonds[j].push({ acceptor: i, energy });
+            }
+          }
+        }
+      }
+    }
+
+    bonds[j].sort((a, b) => a.energy - b.energy);
+    bonds[j].length = Math.min(bonds[j].length, 2);
+  });
+
+  return bonds;
+}
+
+export function computeDssp(atoms: StructureAtom[]): Map<string, DsspCode> {
+  const residues = collectBackbone(atoms);
+  const count = residues.length;
+  const assignment = new Map<string, DsspCode>();
+  if (count === 0) return assignment;
+
+  const bonds = computeHBonds(residues);
+
+  // True when residues a..b (a <= b) are one unbroken stretch of chain
+  const isContinuous = (a: number, b: number) => {
+    if (a < 0 || b >= count) return false;
+    for (let k = a + 1; k <= b; k++) {
+      if (residues[k].chainBreakBefore) return false;
+    }
+    return true;
+  };
+
+  // Hydrogen bond from C=O of residue i to N-H of residue j
+  const hbond = (i: number, j: number) =>
+    i >= 0 &&
+    j >= 0 &&
+    i < count &&
+    j < count &&
+    bonds[j].some((bond) => bond.acceptor === i);
+
+  const codes: DsspCode[] = new Array(count).fill(" ");
+  const setCode = (index: number, code: DsspCode) => {
+    // Priority H > B > E > G > I > T > S
+    const priority = "HBEGITS ";
+    if (priority.indexOf(code) < priority.indexOf(codes[index])) {
+      codes[index] = code;
+    }
+  };
+
+  // n-turns and the helices built from two consecutive turns
+  const turns: Record<number, boolean[]> = {};
+  for (const n of [3, 4, 5]) {
+    turns[n] = residues.map(
+      (_, i) => isContinuous(i, i + n) && hbond(i, i + n)
+    );
+  }
+
+  const helixCodes: Record<number, DsspCode> = { 4: "H", 3: "G", 5: "I" };
+  for (const n of [4, 3, 5]) {
+    for (let i = 1; i < count; i++) {
+      if (turns[n][i - 1] && turns[n][i]) {
+        for (let k = i; k < i + n && k < count; k++) {
+          setCode(k, helixCodes[n]);
+        }
+      }
+    }
+  }
+
+  // Bridges between residues i and j: parallel or anti-parallel. Only
+  // residues hydrogen-bonded to i or its neighbours can be partners.
+  const bonded: Set<number>[] = residues.map(() => new Set<number>());
+  bonds.forEach((donorBonds, j) => {
+    for (const { acceptor } of donorBonds) {
+      bonded[j].add(acceptor);
+      bonded[acceptor].add(j);
+    }
+  });
+
+  const partners: { partner: number; parallel: boolean }[][] = residues.map(
+    () => []
+  );
+  for (let i = 1; i < count - 1; i++) {
+    if (!isContinuous(i - 1, i + 1)) continue;
+
+    const candidates = new Set<number>();
+    for (let k = i - 1; k <= i + 1; k++) {
+      bonded[k].forEach((other) => {
+        candidates.add(other - 1);
+        candidates.add(other);
+        candidates.add(other + 1);
+      });
+    }
+
+    candidates.forEach((j) => {
+      if (j < i + 3 || !isContinuous(j - 1, j + 1)) return;
+
+      const parallel =
+        (hbond(i - 1, j) && hbond(j, i + 1)) ||
+        (hbond(j - 1, i) && hbond(i, j + 1));
+      const antiParallel =
+        (hbond(i, j) && hbond(j, i)) ||
+        (hbond(i - 1, j + 1) && hbond(j - 1, i + 1));
+
+      if (parallel || antiParallel) {
+        partners[i].push({ partner: j, parallel });
+        partners[j].push({ partner: i, parallel });
+      }
+    });
+  }
+
+  // Consecutive bridges form a ladder (E); a lone bridge stays B. Bulges
+  // are not bridged over.
+  for (let i = 0; i < count; i++) {
+    for (const { partner, parallel } of partners[i]) {
+      const step = parallel ? 1 : -1;
+      const inLadder = [-1, 1].some((offset) =>
+        partners[i + offset]?.some(
+          (other) =>
+            other.parallel === parallel &&
+            other.partner === partner + offset * step
+        )
+      );
+      setCode(i, inLadder ? "E" : "B");
+    }
+  }
+
+  // Residues covered by a turn that did not become part of a helix
+  for (const n of [3, 4, 5]) {
+    for (let i = 0; i < count; i++) {
+      if (!turns[n][i]) continue;
+      for (let k = i + 1; k < i + n && k < count; k++) {
+        setCode(k, "T");
+      }
+    }
+  }
+
+  // Bends: the CA trace turns by more than 70 degrees at residue i
+  for (let i = 2; i < count - 2; i++) {
+    if (!isContinuous(i - 2, i + 2)) continue;
+    const a = residues[i - 2].ca;
+    const b = residues[i].ca;
+    const c = residues[i + 2].ca;
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - b[0], c[1] - b[1], c[2] - b[2]];
+    const lengths =
+      Math.sqrt(u[0] * u[0] + u[1] * u[1] + u[2] * u[2]) *
+      Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2]);
+    if (lengths === 0) continue;
+
+    const cosine = (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / lengths;
+    if (Math.acos(Math.max(-1, Math.min(1, cosine))) > (70 * Math.PI) / 180) {
+      setCode(i, "S");
+    }
+  }
+
+  residues.forEach((residue, index) => {
+    assignment.set(residue.key, codes[index]);
+  });
+
+  return assignment;
+}
+
+// Reduces the eight DSSP states to the three the cartoon distinguishes
+export function dsspToSecondaryStructure(code: DsspCode): SecondaryStructure {
+  switch (code) {
+    case "H":
+    case "G":
+    case "I":
+      return "helix";
+    case "E":
+      return "sheet";
+    default:
+      return "coil";
+  }
+}
@@ -0,0 +1,53 @@
+// src/lib/structure/gzip.ts
+//
+// Transparent gzip support for structure files (.pdb.gz, .cif.gz, ...).
+
+export const GZIP_EXTENSION = ".gz";
+
+// RFC 1952 member header: ID1 ID2
+export function isGzip(data: Uint8Array): boolean {
+  return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+export function stripGzipExtension(fileName: string): string {
+  return fileName.toLowerCase().endsWith(GZIP_EXTENSION)
+    ? fileName.slice(0, -GZIP_EXTENSION.length)
+    : fileName;
+}
+
+// Inflates and decodes chunk by chunk so the full decompressed byte array is
+// never held alongside the resulting string
+export async function decompressGzipToText(data: Uint8Array): Promise<string> {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("This browser cannot decompress gzip files");
+  }
+
+  const reader = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"))
+    .pipeThrough(new TextDecoderStream())
+    .getReader();
+
+  const chunks: string[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return chunks.join("");
+}
+
+// Text content of an uploaded file, decompressing it first when the bytes
+// carry the gzip magic number. The returned file name has any ".gz" suffix
+// removed so format detection sees the inner extension.
+export async function readStructureText(
+  data: Uint8Array,
+  fileName: string
+): Promise<{ text: string; fileName: string }> {
+  if (!isGzip(data)) {
+    return { text: new TextDecoder().decode(data), fileName };
+  }
+
+  const text = await decompressGzipToText(data);
+  return { text, fileName: stripGzipExtension(fileName) };
+}
@@ -0,0 +1,60 @@
+// src/lib/structure/loader.ts
+
+import { parsePdb } from "../pdb/parser";
+import { parseMmcif } from "../mmcif/parser";
+import { parseSdf } from "../sdf/parser";
+import { parseXyz } from "../xyz/parser";
+import { Structure } from "./types";
+
+export type StructureFormat = "pdb" | "mmcif" | "sdf" | "xyz";
+
+export const SUPPORTED_EXTENSIONS = [
+  ".pdb",
+  ".ent",
+  ".cif",
+  ".mmcif",
+  ".sdf",
+  ".sd",
+  ".mol",
+  ".xyz",
+];
+
+export function detectFormat(fileName: string, text: string): StructureFormat {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".cif") || name.endsWith(".mmcif")) return "mmcif";
+  if (name.endsWith(".pdb") || name.endsWith(".ent")) return "pdb";
+  if ([".sdf", ".sd", ".mol"].some((extension) => name.endsWith(extension))) {
+    return "sdf";
+  }
+  if (name.endsWith(".xyz")) return "xyz";
+
+  // Unknown extension: mmCIF files open with a data block header, molfiles
+  // carry a version tag on their counts line, XYZ files start with a bare
+  // atom count
+  const head = text.slice(0, 1024);
+  if (/^\s*(#.*\s*)*data_/i.test(head)) return "mmcif";
+  if (/V[23]000/.test(head.split(/\r?\n/)[3] ?? "")) return "sdf";
+  if (/^\s*\d+\s*\r?\n/.test(head)) return "xyz";
+  return "pdb";
+}
+
+function parseFormat(text: string, format: StructureFormat): Structure {
+  switch (format) {
+    case "mmcif":
+      return parseMmcif(text);
+    case "pdb":
+      return parsePdb(text);
+    case "sdf":
+      return parseSdf(text);
+    case "xyz":
+      return parseXyz(text);
+  }
+}
+
+export function parseStructure(text: string, fileName: string): Structure {
+  const format = detectFormat(fileName, text);
+  const structure = parseFormat(text, format);
+  // File-level diagnostics first, then in file order
+  structure.diagnostics.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return structure;
+}
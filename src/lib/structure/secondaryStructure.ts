@@ -0,0 +1,101 @@
+// src/lib/structure/secondaryStructure.ts
+
+import {
+  ResidueRef,
+  SecondaryStructure,
+  Structure,
+  StructureAtom,
+} from "./types";
+
+export function residueKey(
+  chainId: string,
+  residueNumber: number,
+  insertionCode: string
+): string {
+  return `${chainId}:${residueNumber}${insertionCode}`;
+}
+
+function refKey(ref: ResidueRef): string {
+  return residueKey(ref.chainId, ref.residueNumber, ref.insertionCode);
+}
+
+// Residue keys per chain, in the order the residues appear in the file.
+// Ranges are resolved against this order rather than by comparing numbers so
+// that insertion codes (52, 52A, 52B, 53) fall inside the right range.
+function collectChainResidues(atoms: StructureAtom[]): Map<string, string[]> {
+  const chains = new Map<string, string[]>();
+  const seen = new Set<string>();
+
+  for (const atom of atoms) {
+    const key = residueKey(
+      atom.chainId,
+      atom.residueNumber,
+      atom.insertionCode
+    );
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const residues = chains.get(atom.chainId) ?? [];
+    residues.push(key);
+    chains.set(atom.chainId, residues);
+  }
+
+  return chains;
+}
+
+function markRange(
+  assignment: Map<string, SecondaryStructure>,
+  chains: Map<string, string[]>,
+  start: ResidueRef,
+  end: ResidueRef,
+  type: SecondaryStructure
+) {
+  const residues = chains.get(start.chainId);
+  if (!residues) return;
+
+  const first = residues.indexOf(refKey(start));
+  const last = residues.indexOf(refKey(end));
+
+  if (first !== -1 && last !== -1) {
+    for (let i = first; i <= last; i++) {
+      assignment.set(residues[i], type);
+    }
+    return;
+  }
+
+  // One end of the range has no coordinates (e.g. a disordered terminus), so
+  // fall back to the sequence numbers
+  for (const key of residues) {
+    const residueNumber = parseInt(key.slice(key.indexOf(":") + 1), 10);
+    if (
+      residueNumber >= start.residueNumber &&
+      residueNumber <= end.residueNumber
+    ) {
+      assignment.set(key, type);
+    }
+  }
+}
+
+export function hasSecondaryStructureRecords(structure: Structure): boolean {
+  return structure.helices.length > 0 || structure.sheets.length > 0;
+}
+
+// Maps the deposited HELIX and SHEET ranges onto the residues of one model.
+// Residues outside every range are left out of the map and should be treated
+// as coil.
+export function assignSecondaryStructureFromRecords(
+  structure: Structure,
+  atoms: StructureAtom[]
+): Map<string, SecondaryStructure> {
+  const assignment = new Map<string, SecondaryStructure>();
+  const chains = collectChainResidues(atoms);
+
+  for (const helix of structure.helices) {
+    markRange(assignment, chains, helix.start, helix.end, "helix");
+  }
+  for (const strand of structure.sheets) {
+    markRange(assignment, chains, strand.start, strand.end, "sheet");
+  }
+
+  return assignment;
+}
@@ -0,0 +1,329 @@
+// src/lib/structure/selection.ts
+//
+// Atom selection expressions, as used by the representation list:
+//
+//   protein and not hydrogen
+//   resname HEM or (chain B and resi 10-20 52A)
+//   within 5 of ligand
+//
+// Keywords: all, none, protein, nucleic, ligand, water, hydrogen, backbone.
+// Properties take one or more values: chain, resname, resi (numbers, ranges
+// and insertion codes), name, element, serial. Operators, in increasing
+// precedence: or, and, not; "within <Å> of" binds like not.
+
+import { StructureAtom } from "./types";
+
+type SelectionNode =
+  | { kind: "keyword"; keyword: string }
+  | { kind: "property"; property: string; values: string[] }
+  | { kind: "not"; operand: SelectionNode }
+  | { kind: "and" | "or"; left: SelectionNode; right: SelectionNode }
+  | { kind: "within"; distance: number; operand: SelectionNode };
+
+const KEYWORDS = new Set([
+  "all",
+  "none",
+  "protein",
+  "nucleic",
+  "ligand",
+  "water",
+  "hydrogen",
+  "backbone",
+]);
+const PROPERTIES = new Set([
+  "chain",
+  "resname",
+  "resi",
+  "name",
+  "element",
+  "serial",
+]);
+// Words that end a property's value list
+const RESERVED = new Set(["and", "or", "not", "within", "of", "(", ")"]);
+
+const AMINO_ACIDS = new Set(
+  (
+    "ALA ARG ASN ASP CYS GLN GLU GLY HIS ILE LEU LYS MET PHE PRO SER THR " +
+    "TRP TYR VAL MSE SEC PYL HID HIE HIP CYX ASH GLH LYN"
+  ).split(" ")
+);
+const NUCLEOTIDES = new Set("A C G T U I DA DC DG DT DU DI".split(" "));
+const WATERS = new Set(["HOH", "WAT", "H2O", "DOD", "SOL", "TIP3"]);
+const PROTEIN_BACKBONE = new Set(["N", "CA", "C", "O", "OXT"]);
+const NUCLEIC_BACKBONE = new Set(
+  "P OP1 OP2 O5' C5' C4' O4' C3' O3' C2' C1'".split(" ")
+);
+
+// Residue numbers: "10", "52A", and ranges "10-20" or "10:20"
+const RESIDUE_NUMBER = /^(-?\d+)([A-Za-z]?)$/;
+const RESIDUE_RANGE = /^(-?\d+)[-:](-?\d+)$/;
+
+function tokenize(expression: string): string[] {
+  return expression.match(/[()]|[^\s()]+/g) ?? [];
+}
+
+function parse(expression: string): SelectionNode {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position]?.toLowerCase();
+  const fail = (message: string): never => {
+    throw new Error(`${message} at word ${position + 1} of "${expression}"`);
+  };
+
+  const parseOr = (): SelectionNode => {
+    let left = parseAnd();
+    while (peek() === "or") {
+      position++;
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): SelectionNode => {
+    let left = parseUnary();
+    while (peek() === "and") {
+      position++;
+      left = { kind: "and", left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): SelectionNode => {
+    const token = peek();
+    if (token === undefined) return fail("Unexpected end of selection");
+
+    if (token === "not") {
+      position++;
+      return { kind: "not", operand: parseUnary() };
+    }
+
+    if (token === "within") {
+      position++;
+      const distance = parseFloat(tokens[position] ?? "");
+      if (!(distance >= 0)) fail("Expected a distance after within");
+      position++;
+      if (peek() !== "of") fail('Expected "of"');
+      position++;
+      return { kind: "within", distance, operand: parseUnary() };
+    }
+
+    if (token === "(") {
+      position++;
+      const inner = parseOr();
+      if (peek() !== ")") fail('Expected ")"');
+      position++;
+      return inner;
+    }
+
+    if (KEYWORDS.has(token)) {
+      position++;
+      return { kind: "keyword", keyword: token };
+    }
+
+    if (PROPERTIES.has(token)) {
+      position++;
+      const values: string[] = [];
+      while (position < tokens.length && !RESERVED.has(peek() as string)) {
+        values.push(tokens[position++]);
+      }
+      if (values.length === 0) fail(`Expected a value after ${token}`);
+      if (token === "resi") {
+        values
+          .filter((v) => !RESIDUE_NUMBER.test(v) && !RESIDUE_RANGE.test(v))
+          .forEach((v) => fail(`Invalid residue number "${v}"`));
+      }
+      return { kind: "property", property: token, values };
+    }
+
+    return fail(`Unknown word "${tokens[position]}"`);
+  };
+
+  if (tokens.length === 0) return { kind: "keyword", keyword: "all" };
+  const root = parseOr();
+  if (position < tokens.length) fail(`Unexpected "${tokens[position]}"`);
+  return root;
+}
+
+function matchesKeyword(atom: StructureAtom, keyword: string): boolean {
+  const residueName = atom.residueName.toUpperCase();
+  switch (keyword) {
+    case "all":
+      return true;
+    case "none":
+      return false;
+    case "protein":
+      return AMINO_ACIDS.has(residueName);
+    case "nucleic":
+      return NUCLEOTIDES.has(residueName);
+    case "water":
+      return WATERS.has(residueName);
+    case "ligand":
+      return (
+        atom.recordType === "HETATM" &&
+        !WATERS.has(residueName) &&
+        !AMINO_ACIDS.has(residueName) &&
+        !NUCLEOTIDES.has(residueName)
+      );
+    case "hydrogen":
+      return atom.element === "H" || atom.element === "D";
+    case "backbone":
+      return AMINO_ACIDS.has(residueName)
+        ? PROTEIN_BACKBONE.has(atom.name)
+        : NUCLEOTIDES.has(residueName) && NUCLEIC_BACKBONE.has(atom.name);
+    default:
+      return false;
+  }
+}
+
+// Ranges match by number only, ignoring insertion codes
+function matchesResidue(atom: StructureAtom, value: string): boolean {
+  const range = RESIDUE_RANGE.exec(value);
+  if (range) {
+    return (
+      atom.residueNumber >= parseInt(range[1], 10) &&
+      atom.residueNumber <= parseInt(range[2], 10)
+    );
+  }
+
+  const single = RESIDUE_NUMBER.exec(value);
+  return (
+    single !== null &&
+    atom.residueNumber === parseInt(single[1], 10) &&
+    (single[2] === "" ||
+      atom.insertionCode.toUpperCase() === single[2].toUpperCase())
+  );
+}
+
+function matchesProperty(
+  atom: StructureAtom,
+  property: string,
+  values: string[]
+): boolean {
+  switch (property) {
+    case "chain":
+      return values.includes(atom.chainId);
+    case "resname":
+      return values.some(
+        (value) => value.toUpperCase() === atom.residueName.toUpperCase()
+      );
+    case "resi":
+      return values.some((value) => matchesResidue(atom, value));
+    case "name":
+      return values.some((value) => value.toUpperCase() === atom.name);
+    case "element":
+      return values.some((value) => value.toUpperCase() === atom.element);
+    case "serial":
+      return values.some((value) => parseInt(value, 10) === atom.serial);
+    default:
+      return false;
+  }
+}
+
+// Marks every atom within distance of a selected atom, bucketing the
+// selected atoms on a grid of that cell size
+function expandWithin(
+  atoms: StructureAtom[],
+  selected: Uint8Array,
+  distance: number
+): Uint8Array {
+  const cellSize = Math.max(distance, 1);
+  const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+  const cells = new Map<string, number[]>();
+  selected.forEach((isSelected, index) => {
+    if (!isSelected) return;
+    const [x, y, z] = atoms[index].position.map((v) =>
+      Math.floor(v / cellSize)
+    );
+    const key = cellKey(x, y, z);
+    const cell = cells.get(key) ?? [];
+    cell.push(index);
+    cells.set(key, cell);
+  });
+
+  const distanceSquared = distance * distance;
+  return atoms.reduce((result, { position }, index) => {
+    const [cx, cy, cz] = position.map((v) => Math.floor(v / cellSize));
+    for (let dx = -1; dx <= 1 && !result[index]; dx++) {
+      for (let dy = -1; dy <= 1 && !result[index]; dy++) {
+        for (let dz = -1; dz <= 1 && !result[index]; dz++) {
+          const cell = cells.get(cellKey(cx + dx, cy + dy, cz + dz));
+          const near = cell?.some((other) => {
+            const otherPosition = atoms[other].position;
+            const d2 =
+              (position[0] - otherPosition[0]) ** 2 +
+              (position[1] - otherPosition[1]) ** 2 +
+              (position[2] - otherPosition[2]) ** 2;
+            return d2 <= distanceSquared;
+          });
+          if (near) result[index] = 1;
+        }
+      }
+    }
+    return result;
+  }, new Uint8Array(atoms.length));
+}
+
+function evaluate(node: SelectionNode, atoms: StructureAtom[]): Uint8Array {
+  switch (node.kind) {
+    case "keyword":
+      return Uint8Array.from(atoms, (atom) =>
+        matchesKeyword(atom, node.keyword) ? 1 : 0
+      );
+    case "property":
+      return Uint8Array.from(atoms, (atom) =>
+        matchesProperty(atom, node.property, node.values) ? 1 : 0
+      );
+    case "not":
+      return evaluate(node.operand, atoms).map((value) => 1 - value);
+    case "and": {
+      const right = evaluate(node.right, atoms);
+      return evaluate(node.left, atoms).map((value, i) => value & right[i]);
+    }
+    case "or": {
+      const right = evaluate(node.right, atoms);
+      return evaluate(node.left, atoms).map((value, i) => value | right[i]);
+    }
+    case "within":
+      return expandWithin(atoms, evaluate(node.operand, atoms), node.distance);
+  }
+}
+
+// Throws with a description of the problem when the expression is invalid
+export function validateSelection(expression: string) {
+  parse(expression);
+}
+
+// Whether what an expression selects depends on atom coordinates ("within"),
+// so frames of a trajectory cannot share it. Invalid expressions do not.
+export function selectionUsesPositions(expression: string): boolean {
+  const usesPositions = (node: SelectionNode): boolean => {
+    switch (node.kind) {
+      case "keyword":
+      case "property":
+        return false;
+      case "not":
+        return usesPositions(node.operand);
+      case "and":
+      case "or":
+        return usesPositions(node.left) || usesPositions(node.right);
+      case "within":
+        return true;
+    }
+  };
+
+  try {
+    return usesPositions(parse(expression));
+  } catch {
+    return false;
+  }
+}
+
+// One entry per atom, 1 when the atom is selected. An empty expression
+// selects everything.
+export function selectAtoms(
+  atoms: StructureAtom[],
+  expression: string
+): Uint8Array {
+  return evaluate(parse(expression), atoms);
+}
@@ -0,0 +1,453 @@
+// src/lib/structure/surface.ts
+//
+// Molecular surfaces. A scalar field is sampled on a grid around the atoms,
+// negative inside the molecule, and its zero level set is extracted with
+// marching cubes.
+//
+// - SAS: solvent-accessible surface, traced by the centre of a probe sphere
+//   rolled over the van der Waals spheres
+// - SES: solvent-excluded surface, the part of space the probe cannot reach.
+//   Points inside the SAS at least one probe radius from its surface.
+// - Gaussian: smooth isosurface of a sum of Gaussians, one per atom
+
+import { StructureAtom } from "./types";
+
+export type SurfaceType = "sas" | "ses" | "gaussian";
+
+export interface SurfaceOptions {
+  type: SurfaceType;
+  probeRadius: number; // Solvent probe in Å, not used by Gaussian surfaces
+  resolution: number; // Grid spacing in Å
+}
+
+export const DEFAULT_SURFACE_OPTIONS: SurfaceOptions = {
+  type: "ses",
+  probeRadius: 1.4, // Water
+  resolution: 0.5,
+};
+
+// Unindexed triangle list, three vertices per triangle
+export interface SurfaceMesh {
+  positions: Float32Array;
+  normals: Float32Array;
+  atomIndices: Int32Array; // Closest atom of each vertex, for colouring
+  // Grid spacing in Å, coarser than the requested resolution when the grid
+  // of a large assembly would not fit in memory
+  spacing: number;
+}
+
+// Van der Waals radii in Å (Bondi, 1964)
+const VDW_RADII: Record<string, number> = {
+  H: 1.2,
+  D: 1.2,
+  C: 1.7,
+  N: 1.55,
+  O: 1.52,
+  F: 1.47,
+  NA: 2.27,
+  MG: 1.73,
+  SI: 2.1,
+  P: 1.8,
+  S: 1.8,
+  CL: 1.75,
+  K: 2.75,
+  NI: 1.63,
+  CU: 1.4,
+  ZN: 1.39,
+  SE: 1.9,
+  BR: 1.85,
+  I: 1.98,
+};
+const DEFAULT_VDW_RADIUS = 1.7;
+
+// Density of one atom is exp(-GAUSSIAN_SHARPNESS * (d² / r² - 1)), so an
+// isolated atom's surface lies at its van der Waals radius. Contributions
+// beyond GAUSSIAN_CUTOFF radii are negligible and skipped.
+const GAUSSIAN_SHARPNESS = 2;
+const GAUSSIAN_CUTOFF = 2;
+
+// Large assemblies get a coarser grid instead of exhausting memory
+const MAX_GRID_POINTS = 8_000_000;
+
+interface Grid {
+  origin: [number, number, number];
+  spacing: number;
+  size: [number, number, number];
+  values: Float32Array;
+  owners: Int32Array; // Closest atom of each point, -1 when none is near
+}
+
+function createGrid(
+  atoms: StructureAtom[],
+  margin: number,
+  resolution: number
+): Grid {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  atoms.forEach(({ position }) => {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], position[axis] - margin);
+      max[axis] = Math.max(max[axis], position[axis] + margin);
+    }
+  });
+
+  const extent = [0, 1, 2].map((axis) => max[axis] - min[axis]);
+  let spacing = resolution;
+  const pointCount = extent.reduce(
+    (count, length) => count * (length / spacing + 1),
+    1
+  );
+  if (pointCount > MAX_GRID_POINTS) {
+    spacing *= Math.cbrt(pointCount / MAX_GRID_POINTS);
+  }
+
+  const size = extent.map((length) => Math.ceil(length / spacing) + 1) as [
+    number,
+    number,
+    number
+  ];
+  const total = size[0] * size[1] * size[2];
+  return {
+    origin: min as [number, number, number],
+    spacing,
+    size,
+    values: new Float32Array(total),
+    owners: new Int32Array(total).fill(-1),
+  };
+}
+
+// Calls back with every grid point within radius of center
+function forEachPointNear(
+  grid: Grid,
+  center: ArrayLike<number>,
+  radius: number,
+  callback: (index: number, distanceSquared: number) => void
+) {
+  const { origin, spacing, size } = grid;
+  const low = [0, 0, 0];
+  const high = [0, 0, 0];
+  for (let axis = 0; axis < 3; axis++) {
+    low[axis] = Math.max(
+      0,
+      Math.ceil((center[axis] - radius - origin[axis]) / spacing)
+    );
+    high[axis] = Math.min(
+      size[axis] - 1,
+      Math.floor((center[axis] + radius - origin[axis]) / spacing)
+    );
+  }
+
+  const radiusSquared = radius * radius;
+  for (let z = low[2]; z <= high[2]; z++) {
+    const dz = origin[2] + z * spacing - center[2];
+    for (let y = low[1]; y <= high[1]; y++) {
+      const dy = origin[1] + y * spacing - center[1];
+      const dyz = dy * dy + dz * dz;
+      if (dyz > radiusSquared) continue;
+      const row = size[0] * (y + size[1] * z);
+      for (let x = low[0]; x <= high[0]; x++) {
+        const dx = origin[0] + x * spacing - center[0];
+        const distanceSquared = dx * dx + dyz;
+        if (distanceSquared <= radiusSquared) {
+          callback(row + x, distanceSquared);
+        }
+      }
+    }
+  }
+}
+
+// Signed distance to the nearest sphere of radius vdW + probeRadius. Only
+// accurate near the surface; points further than two grid spacings out keep
+// that distance.
+function computeSasField(
+  atoms: StructureAtom[],
+  radii: number[],
+  probeRadius: number,
+  grid: Grid
+) {
+  const { values, owners, spacing } = grid;
+  values.fill(2 * spacing);
+
+  atoms.forEach(({ position }, atomIndex) => {
+    const radius = radii[atomIndex] + probeRadius;
+    forEachPointNear(grid, position, radius + 2 * spacing, (index, d2) => {
+      const distance = Math.sqrt(d2) - radius;
+      if (distance < values[index]) {
+        values[index] = distance;
+        owners[index] = atomIndex;
+      }
+    });
+  });
+}
+
+// Turns the SAS field into the SES field. Probe centres are sampled where
+// grid edges cross the SAS; a point inside the SAS is outside the SES when a
+// probe centre lies within one probe radius of it.
+function computeSesField(probeRadius: number, grid: Grid) {
+  const { values, size, origin, spacing } = grid;
+  const strides = [1, size[0], size[0] * size[1]];
+
+  const probeCenters: number[] = [];
+  for (let z = 0; z < size[2]; z++) {
+    for (let y = 0; y < size[1]; y++) {
+      for (let x = 0; x < size[0]; x++) {
+        const index = x + strides[1] * y + strides[2] * z;
+        const point = [x, y, z];
+        for (let axis = 0; axis < 3; axis++) {
+          if (point[axis] + 1 >= size[axis]) continue;
+          const a = values[index];
+          const b = values[index + strides[axis]];
+          if (a < 0 === b < 0) continue;
+
+          const t = a / (a - b);
+          for (let i = 0; i < 3; i++) {
+            const coordinate = point[i] + (i === axis ? t : 0);
+            probeCenters.push(origin[i] + coordinate * spacing);
+          }
+        }
+      }
+    }
+  }
+
+  const distances = new Float32Array(values.length).fill(Infinity);
+  const reach = probeRadius + 2 * spacing;
+  const center = [0, 0, 0];
+  for (let i = 0; i < probeCenters.length; i += 3) {
+    center[0] = probeCenters[i];
+    center[1] = probeCenters[i + 1];
+    center[2] = probeCenters[i + 2];
+    forEachPointNear(grid, center, reach, (index, d2) => {
+      if (values[index] < 0 && d2 < distances[index] * distances[index]) {
+        distances[index] = Math.sqrt(d2);
+      }
+    });
+  }
+
+  for (let index = 0; index < values.length; index++) {
+    values[index] =
+      values[index] < 0
+        ? probeRadius - Math.min(distances[index], reach)
+        : probeRadius;
+  }
+}
+
+// One minus the summed atom densities
+function computeGaussianField(
+  atoms: StructureAtom[],
+  radii: number[],
+  grid: Grid
+) {
+  const { values, owners } = grid;
+  const closest = new Float32Array(values.length).fill(Infinity);
+  values.fill(1);
+
+  atoms.forEach(({ position }, atomIndex) => {
+    const radius = radii[atomIndex];
+    const radiusSquared = radius * radius;
+    forEachPointNear(grid, position, radius * GAUSSIAN_CUTOFF, (index, d2) => {
+      const scaled = d2 / radiusSquared;
+      values[index] -= Math.exp(-GAUSSIAN_SHARPNESS * (scaled - 1));
+      if (scaled < closest[index]) {
+        closest[index] = scaled;
+        owners[index] = atomIndex;
+      }
+    });
+  });
+}
+
+// Cube corners are numbered x + 2y + 4z. Edges run along each axis in turn.
+const EDGE_CORNERS: [number, number][] = [];
+for (let axis = 0; axis < 3; axis++) {
+  for (let corner = 0; corner < 8; corner++) {
+    if (!(corner & (1 << axis))) {
+      EDGE_CORNERS.push([corner, corner | (1 << axis)]);
+    }
+  }
+}
+
+function edgeBetween(a: number, b: number): number {
+  return EDGE_CORNERS.findIndex(
+    ([first, second]) =>
+      (first === a && second === b) || (first === b && second === a)
+  );
+}
+
+// Corners of the six faces, counter-clockwise seen from outside the cube
+const FACE_CORNERS: number[][] = [];
+for (let axis = 0; axis < 3; axis++) {
+  const u = (axis + 1) % 3;
+  const w = (axis + 2) % 3;
+  for (let side = 0; side < 2; side++) {
+    const corners = [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 1],
+    ].map(([a, b]) => (side << axis) | (a << u) | (b << w));
+    FACE_CORNERS.push(side ? corners : corners.reverse());
+  }
+}
+
+// Marching cubes triangle table, generated rather than written out. On each
+// face, every run of inside corners is cut off by a segment from the edge
+// where the counter-clockwise walk enters the run to the edge where it
+// leaves. Cutting corners off individually resolves the ambiguous faces the
+// same way in both cubes sharing them, so the mesh has no holes. A face's
+// exit edge is an entry edge of its neighbour, so the segments chain into
+// closed loops, which are triangulated as fans.
+function buildTriangleTable(): number[][] {
+  const table: number[][] = [];
+
+  for (let cubeCase = 0; cubeCase < 256; cubeCase++) {
+    const inside = (corner: number) => (cubeCase >> corner) & 1;
+    const next = new Map<number, number>();
+
+    FACE_CORNERS.forEach((corners) => {
+      const edgeAt = (k: number) =>
+        edgeBetween(corners[k % 4], corners[(k + 1) % 4]);
+      for (let k = 0; k < 4; k++) {
+        if (inside(corners[k]) || !inside(corners[(k + 1) % 4])) continue;
+        let exit = k + 1;
+        while (!inside(corners[exit % 4]) || inside(corners[(exit + 1) % 4])) {
+          exit++;
+        }
+        next.set(edgeAt(k), edgeAt(exit));
+      }
+    });
+
+    const triangles: number[] = [];
+    while (next.size > 0) {
+      const start = next.keys().next().value as number;
+      const loop: number[] = [];
+      for (let edge = start; next.has(edge); ) {
+        loop.push(edge);
+        const following = next.get(edge) as number;
+        next.delete(edge);
+        edge = following;
+      }
+      for (let i = 1; i + 1 < loop.length; i++) {
+        triangles.push(loop[0], loop[i], loop[i + 1]);
+      }
+    }
+    table.push(triangles);
+  }
+
+  return table;
+}
+
+const TRIANGLE_TABLE = buildTriangleTable();
+
+function extractIsosurface(grid: Grid): SurfaceMesh {
+  const { values, owners, size, origin, spacing } = grid;
+  const strides = [1, size[0], size[0] * size[1]];
+  const cornerOffsets = [0, 1, 2, 3, 4, 5, 6, 7].map(
+    (corner) =>
+      (corner & 1) +
+      ((corner >> 1) & 1) * strides[1] +
+      (corner >> 2) * strides[2]
+  );
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const atomIndices: number[] = [];
+
+  // Central differences, one-sided at the grid border
+  const gradient = (index: number, point: number[]) =>
+    [0, 1, 2].map((axis) => {
+      const before = point[axis] > 0 ? index - strides[axis] : index;
+      const after =
+        point[axis] + 1 < size[axis] ? index + strides[axis] : index;
+      return values[after] - values[before];
+    });
+
+  for (let z = 0; z + 1 < size[2]; z++) {
+    for (let y = 0; y + 1 < size[1]; y++) {
+      for (let x = 0; x + 1 < size[0]; x++) {
+        const base = x + strides[1] * y + strides[2] * z;
+
+        let cubeCase = 0;
+        for (let corner = 0; corner < 8; corner++) {
+          if (values[base + cornerOffsets[corner]] < 0) cubeCase |= 1 << corner;
+        }
+        if (cubeCase === 0 || cubeCase === 255) continue;
+
+        TRIANGLE_TABLE[cubeCase].forEach((edge) => {
+          const [a, b] = EDGE_CORNERS[edge];
+          const indexA = base + cornerOffsets[a];
+          const indexB = base + cornerOffsets[b];
+          const t = values[indexA] / (values[indexA] - values[indexB]);
+          const pointA = [x + (a & 1), y + ((a >> 1) & 1), z + (a >> 2)];
+          const pointB = [x + (b & 1), y + ((b >> 1) & 1), z + (b >> 2)];
+
+          const gradientA = gradient(indexA, pointA);
+          const gradientB = gradient(indexB, pointB);
+          const normal = [0, 1, 2].map(
+            (axis) => gradientA[axis] + t * (gradientB[axis] - gradientA[axis])
+          );
+          const length = Math.hypot(normal[0], normal[1], normal[2]) || 1;
+
+          for (let axis = 0; axis < 3; axis++) {
+            const coordinate = pointA[axis] + t * (pointB[axis] - pointA[axis]);
+            positions.push(origin[axis] + coordinate * spacing);
+            normals.push(normal[axis] / length);
+          }
+
+          const [nearer, further] =
+            t < 0.5 ? [indexA, indexB] : [indexB, indexA];
+          atomIndices.push(
+            owners[nearer] >= 0 ? owners[nearer] : owners[further]
+          );
+        });
+      }
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    atomIndices: new Int32Array(atomIndices),
+    spacing,
+  };
+}
+
+export function computeMolecularSurface(
+  atoms: StructureAtom[],
+  options: SurfaceOptions = DEFAULT_SURFACE_OPTIONS
+): SurfaceMesh {
+  if (atoms.length === 0) {
+    return {
+      positions: new Float32Array(0),
+      normals: new Float32Array(0),
+      atomIndices: new Int32Array(0),
+      spacing: options.resolution,
+    };
+  }
+
+  const radii = atoms.map(
+    ({ element }) => VDW_RADII[element.toUpperCase()] ?? DEFAULT_VDW_RADIUS
+  );
+  // Reduced rather than spread: spreading a large assembly's radii into
+  // Math.max exceeds the call stack
+  const maxRadius = radii.reduce((max, radius) => Math.max(max, radius), 0);
+  const probeRadius = Math.max(0, options.probeRadius);
+  const reach =
+    options.type === "gaussian"
+      ? maxRadius * GAUSSIAN_CUTOFF
+      : maxRadius + probeRadius;
+  const grid = createGrid(
+    atoms,
+    reach + 2 * options.resolution,
+    options.resolution
+  );
+
+  if (options.type === "gaussian") {
+    computeGaussianField(atoms, radii, grid);
+  } else {
+    computeSasField(atoms, radii, probeRadius, grid);
+    if (options.type === "ses" && probeRadius > 0) {
+      computeSesField(probeRadius, grid);
+    }
+  }
+
+  return extractIsosurface(grid);
+}
@@ -0,0 +1,55 @@
+// src/lib/structure/topology.ts
+//
+// Models that list the same atoms in the same order, with the same explicit
+// bonds, and differ only in their coordinates: the frames of a trajectory,
+// and the models of most NMR ensembles. Everything that does not depend on
+// coordinates (metadata, bonds, selections) is computed once per topology.
+
+import { Structure, StructureModel } from "./types";
+
+export function sameTopology(a: StructureModel, b: StructureModel): boolean {
+  if (a.atoms.length !== b.atoms.length) return false;
+  if (a.bonds.length !== b.bonds.length) return false;
+
+  const sameAtoms = a.atoms.every((atom, index) => {
+    const other = b.atoms[index];
+    return (
+      atom.recordType === other.recordType &&
+      atom.name === other.name &&
+      atom.altLoc === other.altLoc &&
+      atom.residueName === other.residueName &&
+      atom.chainId === other.chainId &&
+      atom.residueNumber === other.residueNumber &&
+      atom.insertionCode === other.insertionCode &&
+      atom.element === other.element &&
+      // Occupancies pick the drawn alternate location
+      (atom.altLoc === "" || atom.occupancy === other.occupancy)
+    );
+  });
+  return (
+    sameAtoms &&
+    a.bonds.every((bond, index) => {
+      const other = b.bonds[index];
+      return (
+        bond.atom1 === other.atom1 &&
+        bond.atom2 === other.atom2 &&
+        bond.order === other.order
+      );
+    })
+  );
+}
+
+// For each model, the index of the first model of its run of consecutive
+// models with the same topology (its own index when it starts a run)
+export function topologyReferences(structure: Structure): number[] {
+  const references: number[] = [];
+  structure.models.forEach((model, index) => {
+    const previous = references[index - 1];
+    references.push(
+      previous !== undefined && sameTopology(structure.models[previous], model)
+        ? previous
+        : index
+    );
+  });
+  return references;
+}
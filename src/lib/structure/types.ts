@@ -0,0 +1,118 @@
+// src/lib/structure/types.ts
+
+export type AtomRecordType = "ATOM" | "HETATM";
+
+export interface StructureAtom {
+  recordType: AtomRecordType;
+  serial: number; // Atom serial number
+  name: string; // Atom name (e.g., CA, CB, N, O)
+  altLoc: string; // Alternate location indicator ("" when absent)
+  residueName: string; // Residue name (three letter code for amino acids)
+  chainId: string; // Chain identifier
+  residueNumber: number; // Residue sequence number
+  insertionCode: string; // Code for insertion of residues ("" when absent)
+  position: [number, number, number]; // Orthogonal coordinates in Angstroms
+  occupancy: number;
+  tempFactor: number; // Temperature (B) factor
+  segmentId: string; // Segment identifier
+  element: string; // Element symbol, upper case
+  charge: number; // Formal charge
+}
+
+export type SecondaryStructure = "helix" | "sheet" | "coil";
+
+export interface ResidueRef {
+  residueName: string;
+  chainId: string;
+  residueNumber: number;
+  insertionCode: string;
+}
+
+export interface HelixRecord {
+  serial: number;
+  id: string;
+  start: ResidueRef;
+  end: ResidueRef;
+  helixClass: number; // 1 = right-handed alpha, 3 = pi, 5 = 3-10, ...
+  length: number;
+}
+
+export interface SheetStrandRecord {
+  strand: number; // Strand number within the sheet, starting at 1
+  sheetId: string;
+  strandCount: number;
+  start: ResidueRef;
+  end: ResidueRef;
+  sense: number; // 0 for the first strand, 1 parallel, -1 anti-parallel
+  // Hydrogen-bond registration with the previous strand
+  registration: {
+    currentAtom: string;
+    current: ResidueRef;
+    previousAtom: string;
+    previous: ResidueRef;
+  } | null;
+}
+
+export type ConnectionType = "covalent" | "disulfide" | "metal" | "hydrogen";
+
+export interface AtomRef extends ResidueRef {
+  atomName: string;
+  altLoc: string;
+}
+
+// Inter-residue connections (SSBOND/LINK records, mmCIF _struct_conn)
+export interface StructureConnection {
+  type: ConnectionType;
+  partner1: AtomRef;
+  partner2: AtomRef;
+  order: number; // Bond order, 1 when not given
+  distance: number; // Bond length in Angstroms, 0 when not given
+}
+
+export interface StructureHeader {
+  classification: string;
+  depositionDate: string;
+  idCode: string;
+}
+
+// Explicit bond between two atoms of a model, by index into its atoms
+export interface StructureBond {
+  atom1: number;
+  atom2: number;
+  order: number; // 1-3 for single to triple, 4 for aromatic
+}
+
+export interface DataField {
+  name: string;
+  value: string;
+}
+
+// One MODEL of an NMR ensemble or trajectory, or one record of an SDF file;
+// single-model files have one
+export interface StructureModel {
+  serial: number;
+  name?: string; // Molecule name of an SDF record
+  atoms: StructureAtom[];
+  bonds: StructureBond[];
+  dataFields?: DataField[]; // SDF "> <name>" data items
+}
+
+export type DiagnosticSeverity = "warning" | "error";
+
+// Problem found while parsing. Errors mark data that was dropped, warnings
+// data that was kept but may be wrong.
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  line: number | null; // 1-based, null when it concerns the whole file
+  message: string;
+}
+
+export interface Structure {
+  header: StructureHeader | null;
+  title: string;
+  models: StructureModel[];
+  helices: HelixRecord[];
+  sheets: SheetStrandRecord[];
+  connections: StructureConnection[];
+  diagnostics: ParseDiagnostic[];
+}
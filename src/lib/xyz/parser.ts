@@ -0,0 +1,130 @@
+// src/lib/xyz/parser.ts
+//
+// XYZ coordinate files. Multi-frame files (optimisation or MD trajectories)
+// are consecutive XYZ blocks; each frame becomes one model.
+
+import {
+  ParseDiagnostic,
+  Structure,
+  StructureAtom,
+  StructureModel,
+} from "../structure/types";
+import { checkAtom, checkHasAtoms } from "../structure/diagnostics";
+
+// Element symbols by atomic number, for files that write Z instead of symbols
+const ELEMENTS = [
+  "",
+  ..."H HE LI BE B C N O F NE NA MG AL SI P S CL AR K CA".split(" "),
+  ..."SC TI V CR MN FE CO NI CU ZN GA GE AS SE BR KR".split(" "),
+  ..."RB SR Y ZR NB MO TC RU RH PD AG CD IN SN SB TE I XE".split(" "),
+];
+
+function parseElement(symbol: string): string {
+  if (/^\d+$/.test(symbol)) {
+    return ELEMENTS[parseInt(symbol, 10)] ?? "";
+  }
+  // Some programs append a label to the symbol, e.g. "C1" or "H_a"
+  return (symbol.match(/^[A-Za-z]{1,2}/)?.[0] ?? "").toUpperCase();
+}
+
+// A truncated frame is reported and dropped
+function parseFrame(
+  lines: string[],
+  start: number,
+  atomCount: number,
+  serial: number,
+  diagnostics: ParseDiagnostic[]
+): StructureModel | null {
+  const atoms: StructureAtom[] = [];
+
+  for (let i = 0; i < atomCount; i++) {
+    const index = start + 2 + i;
+    const line = lines[index];
+    if (line === undefined || line.trim() === "") {
+      diagnostics.push({
+        severity: "error",
+        line: index + 1,
+        message: `Frame ${serial} ends after ${i} of ${atomCount} atoms and was dropped`,
+      });
+      return null;
+    }
+
+    const [symbol, x, y, z] = line.trim().split(/\s+/);
+    const element = parseElement(symbol ?? "");
+
+    const atom: StructureAtom = {
+      recordType: "HETATM",
+      serial: i + 1,
+      name: `${element}${i + 1}`,
+      altLoc: "",
+      residueName: "UNL",
+      chainId: "",
+      residueNumber: 1,
+      insertionCode: "",
+      position: [parseFloat(x), parseFloat(y), parseFloat(z)],
+      occupancy: 1.0,
+      tempFactor: 0.0,
+      segmentId: "",
+      element,
+      charge: 0,
+    };
+    if (checkAtom(atom, index + 1, diagnostics)) atoms.push(atom);
+  }
+
+  const comment = (lines[start + 1] ?? "").trim();
+  return {
+    serial,
+    name: comment || undefined,
+    atoms,
+    bonds: [],
+  };
+}
+
+export function parseXyz(xyzContent: string): Structure {
+  const lines = xyzContent.split(/\r?\n/);
+  const models: StructureModel[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  let start = 0;
+
+  while (start < lines.length) {
+    const countLine = lines[start].trim();
+    if (countLine === "") {
+      start++;
+      continue;
+    }
+
+    // Without a count the frame boundaries are lost, so parsing stops. Only
+    // plain digits are a count: a negative one would move backwards.
+    if (!/^\d+$/.test(countLine)) {
+      diagnostics.push({
+        severity: "error",
+        line: start + 1,
+        message: `Expected an atom count, found "${countLine}"; the rest of the file was skipped`,
+      });
+      break;
+    }
+    const atomCount = parseInt(countLine, 10);
+
+    const frame = parseFrame(
+      lines,
+      start,
+      atomCount,
+      models.length + 1,
+      diagnostics
+    );
+    if (frame) models.push(frame);
+    start += atomCount + 2;
+  }
+
+  const structure: Structure = {
+    header: null,
+    title: models[0]?.name ?? "",
+    models,
+    helices: [],
+    sheets: [],
+    connections: [],
+    diagnostics,
+  };
+  checkHasAtoms(structure);
+  return structure;
+}